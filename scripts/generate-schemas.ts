@@ -16,12 +16,20 @@ const outputDir = path.resolve(__dirname, '../src/bridge/schemas');
 const types = [
   // Request bodies
   'StartBody',
+  'SettingsBody',
+  'RoutingBody',
   'DocumentOpenBody',
   'DocumentChangeBody',
   'DocumentCloseBody',
   'PositionBody',
   'ReferencesBody',
+  'TypeHierarchyBody',
   'SymbolsBody',
+  'WorkspaceSymbolsBody',
+  'CodeActionsBody',
+  'CodeActionApplyBody',
+  'FormatBody',
+  'SemanticTokensBody',
   // Responses
   'ErrorResponse',
   'SuccessResponse',
@@ -1,10 +1,13 @@
 #!/usr/bin/env npx tsx
 import { LSPBridgeServer } from './bridge-server';
+import { languageRegistry } from '../lsp-server';
+import { registerServerDefinitions } from '../server-definitions';
 
-function parseArgs(): { port: number; host: string } {
+function parseArgs(): { port: number; host: string; serverFiles: string[] } {
   const args = process.argv.slice(2);
   let port = 3000;
   let host = '127.0.0.1';
+  const serverFiles: string[] = [];
 
   for (let i = 0; i < args.length; i++) {
     if (args[i] === '--port' || args[i] === '-p') {
@@ -25,6 +28,12 @@ function parseArgs(): { port: number; host: string } {
         host = hostArg;
       }
       i++;
+    } else if (args[i] === '--servers') {
+      const serversArg = args[i + 1];
+      if (serversArg) {
+        serverFiles.push(serversArg);
+      }
+      i++;
     } else if (args[i] === '--help' || args[i] === '-h') {
       console.log(`
 LSP Bridge Server
@@ -32,23 +41,36 @@ LSP Bridge Server
 Usage: bridge-cli [options]
 
 Options:
-  -p, --port <port>  Port to listen on (default: 3000)
-      --host <host>  Host to bind to (default: 127.0.0.1)
-  -h, --help         Show this help message
+  -p, --port <port>     Port to listen on (default: 3000)
+      --host <host>     Host to bind to (default: 127.0.0.1)
+      --servers <file>  Register the language servers defined in a JSON or
+                        YAML file (repeatable)
+  -h, --help            Show this help message
 
 Example:
   bridge-cli --port 3000
   bridge-cli --host 0.0.0.0 --port 3013  # listen on all interfaces
+  bridge-cli --servers servers.yaml      # add in-house language servers
 `);
       process.exit(0);
     }
   }
 
-  return { port, host };
+  return { port, host, serverFiles };
 }
 
 async function main(): Promise<void> {
-  const { port, host } = parseArgs();
+  const { port, host, serverFiles } = parseArgs();
+
+  try {
+    for (const file of serverFiles) {
+      const languages = registerServerDefinitions(languageRegistry, file);
+      console.log(`Registered ${languages.map((language) => language.id).join(', ')} from ${file}`);
+    }
+  } catch (error) {
+    console.error('Failed to load server definitions:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
 
   const server = new LSPBridgeServer(port, host);
 
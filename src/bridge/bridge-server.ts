@@ -1,14 +1,21 @@
-import Fastify, { FastifyInstance } from 'fastify';
+import Fastify, { FastifyInstance, FastifyError } from 'fastify';
 import cors from '@fastify/cors';
 import swagger from '@fastify/swagger';
 import swaggerUi from '@fastify/swagger-ui';
 import { schemaDefinitions } from './schemas';
-import { BridgeState, BadRequestError } from './bridge-types';
+import { BridgeState, BadRequestError, NotFoundError } from './bridge-types';
+import { stopAllSessions } from './bridge-sessions';
+import { RequestTimeoutError } from '../lsp-client';
+import { LanguageRegistry } from '../language-registry';
+import { languageRegistry } from '../lsp-server';
 import {
   registerLifecycleRoutes,
+  registerSessionRoutes,
+  registerLanguageRoutes,
   registerDocumentRoutes,
   registerFeatureRoutes,
   registerDiagnosticsRoutes,
+  SESSION_PARAMS_SCHEMA,
 } from './routes';
 
 export class LSPBridgeServer {
@@ -17,13 +24,14 @@ export class LSPBridgeServer {
   private host: string;
   private state: BridgeState;
 
-  constructor(port: number = 3000, host: string = '127.0.0.1') {
+  constructor(port: number = 3000, host: string = '127.0.0.1', registry: LanguageRegistry = languageRegistry) {
     this.port = port;
     this.host = host;
     this.state = {
-      client: null,
-      language: null,
-      diagnosticsBuffer: new Map(),
+      registry,
+      sessions: new Map(),
+      routing: { roots: [] },
+      pendingSessions: new Map(),
     };
     this.app = this.createApp();
   }
@@ -53,6 +61,8 @@ export class LSPBridgeServer {
         servers: [{ url: `http://localhost:${this.port}` }],
         tags: [
           { name: 'lifecycle', description: 'Server lifecycle management' },
+          { name: 'sessions', description: 'Sessions running several LSP servers side by side' },
+          { name: 'languages', description: 'Languages that can be started' },
           { name: 'document', description: 'Document operations' },
           { name: 'features', description: 'LSP features (completion, hover, etc.)' },
           { name: 'diagnostics', description: 'Diagnostics management' },
@@ -83,16 +93,32 @@ export class LSPBridgeServer {
     const state = this.state;
     app.register(async (app) => {
       registerLifecycleRoutes(app, state);
+      registerSessionRoutes(app, state);
+      registerLanguageRoutes(app, state);
       registerDocumentRoutes(app, state);
       registerFeatureRoutes(app, state);
       registerDiagnosticsRoutes(app, state);
     });
+
+    // The same document, feature and diagnostics routes, scoped to a session
+    app.register(async (app) => {
+      app.addHook('onRoute', (route) => {
+        route.schema = { ...route.schema, params: SESSION_PARAMS_SCHEMA };
+      });
+      registerDocumentRoutes(app, state);
+      registerFeatureRoutes(app, state);
+      registerDiagnosticsRoutes(app, state);
+    }, { prefix: '/sessions/:sessionId' });
   }
 
   private registerErrorHandler(app: FastifyInstance): void {
     app.setErrorHandler(async (error: Error, request, reply) => {
-      if (error instanceof BadRequestError) {
+      if (error instanceof BadRequestError || (error as FastifyError).validation) {
         reply.code(400).send({ error: error.message });
+      } else if (error instanceof NotFoundError) {
+        reply.code(404).send({ error: error.message });
+      } else if (error instanceof RequestTimeoutError) {
+        reply.code(504).send({ error: error.message });
       } else {
         request.log.error(error);
         reply.code(500).send({ error: 'Internal server error' });
@@ -105,11 +131,7 @@ export class LSPBridgeServer {
   }
 
   async stop(): Promise<void> {
-    if (this.state.client) {
-      await this.state.client.stop().catch(() => {});
-      this.state.client = null;
-      this.state.language = null;
-    }
+    await stopAllSessions(this.state);
     await this.app.close();
   }
 }
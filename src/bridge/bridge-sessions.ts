@@ -0,0 +1,101 @@
+import { FastifyBaseLogger } from 'fastify';
+import { InitializeResult } from 'vscode-languageserver-protocol';
+import { BridgeState, BridgeSession, StartBody } from './bridge-types';
+import { createLspClientForLanguage } from './lsp-client-factory';
+
+/** Session used by /start, /stop and the routes that are not scoped by a session id */
+export const DEFAULT_SESSION_ID = 'default';
+
+/**
+ * Create a client for the requested language, start it as a new session and
+ * return the server capabilities. The session is registered before the server
+ * starts, so a concurrent start with the same id is refused, and is removed
+ * again if the start fails. Requests for the session wait on session.started.
+ */
+export async function startSession(
+  state: BridgeState,
+  id: string,
+  body: StartBody,
+  log: FastifyBaseLogger
+): Promise<InitializeResult> {
+  const client = createLspClientForLanguage(body, state.registry);
+  const session: BridgeSession = {
+    id,
+    language: body.language,
+    rootUri: body.rootUri,
+    client,
+    diagnosticsBuffer: new Map(),
+    started: Promise.resolve(),
+  };
+  state.sessions.set(id, session);
+
+  const starting = startClient(state, session, body, log).catch((err) => {
+    if (state.sessions.get(id) === session) {
+      state.sessions.delete(id);
+    }
+    throw err;
+  });
+  session.started = starting.then(() => undefined, () => undefined);
+  return starting;
+}
+
+async function startClient(
+  state: BridgeState,
+  session: BridgeSession,
+  body: StartBody,
+  log: FastifyBaseLogger
+): Promise<InitializeResult> {
+  const { id, client } = session;
+
+  if (body.restart) {
+    client.setRestartOptions(body.restart);
+  }
+  if (body.requestTimeout !== undefined) {
+    client.setRequestTimeout(body.requestTimeout);
+  }
+
+  // Sections given at start replace the same sections of the language's own settings
+  if (body.settings) {
+    await client.updateSettings({ ...client.getSettings(), ...body.settings });
+  }
+
+  client.onDiagnostics((params) => {
+    session.diagnosticsBuffer.set(params.uri, params.diagnostics);
+  });
+
+  client.onLifecycle((event) => {
+    // Diagnostics of the crashed server are stale; the new one publishes its own
+    if (event.type === 'restarting') {
+      session.diagnosticsBuffer.clear();
+    }
+    // Drop a crashed session that will not come back so it can be started again
+    if ((event.type === 'crashed' && !event.willRestart) || event.type === 'restart-failed') {
+      log.error(`LSP server for ${body.language} (session ${id}) crashed`);
+      client.stop().catch(() => {});
+      if (state.sessions.get(id) === session) {
+        state.sessions.delete(id);
+      }
+    }
+  });
+
+  return client.start();
+}
+
+/**
+ * Stop a session's LSP server and forget the session.
+ * Returns false if there is no such session.
+ */
+export async function stopSession(state: BridgeState, id: string): Promise<boolean> {
+  const session = state.sessions.get(id);
+  if (!session) {
+    return false;
+  }
+  state.sessions.delete(id);
+  await session.client.stop();
+  return true;
+}
+
+export async function stopAllSessions(state: BridgeState): Promise<void> {
+  const ids = [...state.sessions.keys()];
+  await Promise.all(ids.map((id) => stopSession(state, id).catch(() => false)));
+}
@@ -8,214 +8,198 @@ import {
   LocationLink,
   DocumentSymbol,
   SymbolInformation,
+  Range,
+  CodeAction,
+  Command,
+  FormattingOptions,
+  TextEdit,
+  SignatureHelp,
+  WorkspaceSymbol,
 } from 'vscode-languageserver-protocol';
-import { LSPClient } from '../lsp-client';
-
-// Supported languages
-export type SupportedLanguage =
-  | 'typescript'
-  | 'python'
-  | 'java'
-  | 'rust'
-  | 'ruby'
-  | 'perl'
-  | 'cpp'
-  | 'csharp'
-  | 'sql'
-  | 'cobol'
-  | 'bash'
-  | 'terraform'
-  | 'clojure'
-  | 'kotlin'
-  | 'go'
-  | 'php'
-  | 'pickbasic'
-  | 'vax-pascal'
-  | 'hlasm';
-
-// Base start body with common fields
-interface StartBodyBase {
-  /** The programming language to use */
-  language: SupportedLanguage;
-  /** Root URI for the workspace */
-  rootUri: string;
+import { LSPClient, RestartOptions } from '../lsp-client';
+import { LanguageRegistry, LanguageOptionsSchema } from '../language-registry';
+import { LanguageReport } from '../doctor';
+import { DecodedSemanticToken } from '../semantic-tokens';
+import { TypeHierarchyTree } from '../type-hierarchy';
+
+// Start options: the common fields plus the options of the language's factory
+// (see LanguageDefinition.optionsSchema), e.g. serverJar for COBOL
+export interface LanguageStartOptions {
   /** Additional arguments to pass to the LSP server */
   serverArgs?: string[];
+  /** Restart the LSP server automatically if it crashes */
+  restart?: RestartOptions;
+  /** Default timeout for requests to the LSP server in milliseconds (0 disables it); timed out requests get a 504 */
+  requestTimeout?: number;
+  /**
+   * Server settings keyed by section, returned for workspace/configuration
+   * requests; each section replaces the same section of the language's settings
+   */
+  settings?: Record<string, unknown>;
+  /** Language-specific options */
+  [option: string]: unknown;
+}
+
+export interface StartBody extends LanguageStartOptions {
+  /** Id of a registered language (see GET /languages) */
+  language: string;
+  /** Root URI for the workspace */
+  rootUri: string;
 }
 
-// Language-specific start body types
-export interface TypescriptStartBody extends StartBodyBase {
-  language: 'typescript';
-}
-
-export interface PythonStartBody extends StartBodyBase {
-  language: 'python';
-  /** Directory containing the pylsp installation (with poetry) */
-  serverDir: string;
+// Document body types
+export interface DocumentOpenBody {
+  uri: string;
+  /** LSP language identifier (default: the languageId of the session's language, see GET /languages) */
+  languageId?: string;
+  text: string;
 }
 
-export interface JavaStartBody extends StartBodyBase {
-  language: 'java';
+export interface DocumentChangeBody {
+  uri: string;
+  text: string;
 }
 
-export interface RustStartBody extends StartBodyBase {
-  language: 'rust';
+export interface DocumentCloseBody {
+  uri: string;
 }
 
-export interface RubyStartBody extends StartBodyBase {
-  language: 'ruby';
-  /** Working directory for the server process */
-  cwd?: string;
+export interface RoutingBody {
+  /** Workspace root URIs; a server is started lazily for the innermost root containing a file */
+  roots: string[];
+  /** Extra /start fields per language, e.g. { "cobol": { "serverJar": "/path/to/server.jar" } } */
+  languages?: Record<string, LanguageStartOptions>;
 }
 
-export interface PerlStartBody extends StartBodyBase {
-  language: 'perl';
-  /** Path to the PerlNavigator executable */
-  serverPath: string;
+export interface SettingsBody {
+  /** Server settings keyed by section; replaces the settings given to /start */
+  settings: Record<string, unknown>;
 }
 
-export interface CppStartBody extends StartBodyBase {
-  language: 'cpp';
+export interface PositionBody {
+  uri: string;
+  line: number;
+  character: number;
 }
 
-export interface CsharpStartBody extends StartBodyBase {
-  language: 'csharp';
-  /** Path to the .sln solution file */
-  solutionPath: string;
-  /** Log level (default: 'INFO') */
-  logLevel?: string;
+export interface ReferencesBody extends PositionBody {
+  includeDeclaration?: boolean;
 }
 
-export interface SqlStartBody extends StartBodyBase {
-  language: 'sql';
-  /** Path to the sql-language-server executable */
-  serverPath: string;
+export interface TypeHierarchyBody extends PositionBody {
+  /** Maximum number of inheritance levels to follow in each direction (default: 5) */
+  maxDepth?: number;
 }
 
-export interface CobolStartBody extends StartBodyBase {
-  language: 'cobol';
-  /** Path to the Che4z COBOL LSP server JAR file */
-  serverJar: string;
-  /** Socket port (default: 1044) */
-  port?: number;
-  /** Socket host (default: localhost) */
-  host?: string;
+export interface SymbolsBody {
+  uri: string;
 }
 
-export interface BashStartBody extends StartBodyBase {
-  language: 'bash';
+export interface WorkspaceSymbolsBody {
+  /** Search query (an empty string requests all symbols) */
+  query: string;
+  /** Only return symbols of these SymbolKind values */
+  kinds?: number[];
+  /** Number of matching symbols to skip (default: 0) */
+  offset?: number;
+  /** Maximum number of symbols to return (default: 100) */
+  limit?: number;
+  /** Resolve the location range of returned symbols if the server supports it (default: false) */
+  resolve?: boolean;
 }
 
-export interface TerraformStartBody extends StartBodyBase {
-  language: 'terraform';
+export interface CodeActionsBody {
+  uri: string;
+  range: Range;
+  /** Only return actions of these kinds (e.g. 'quickfix', 'source.organizeImports') */
+  only?: string[];
+  /** Diagnostics to fix (default: buffered diagnostics overlapping the range) */
+  diagnostics?: Diagnostic[];
 }
 
-export interface ClojureStartBody extends StartBodyBase {
-  language: 'clojure';
+export interface CodeActionApplyBody {
+  /** A code action or command as returned by /code-actions */
+  action: CodeAction | Command;
 }
 
-export interface KotlinStartBody extends StartBodyBase {
-  language: 'kotlin';
+export interface FormatBody {
+  uri: string;
+  /** Format only this range (default: the whole document) */
+  range?: Range;
+  /** Formatting options (default: tabSize 4, insertSpaces true) */
+  options?: FormattingOptions;
+  /** Return the formatted document text instead of the edits */
+  returnText?: boolean;
 }
 
-export interface GoStartBody extends StartBodyBase {
-  language: 'go';
-  /** Path to gopls executable (default: ~/go/bin/gopls) */
-  serverPath?: string;
+export interface SemanticTokensBody {
+  uri: string;
+  /** Only return tokens in this range (default: the whole document) */
+  range?: Range;
 }
 
-export interface PhpStartBody extends StartBodyBase {
-  language: 'php';
-}
+// Response types
 
-export interface PickbasicStartBody extends StartBodyBase {
-  language: 'pickbasic';
-  /** Directory containing the pickbasic-lsp installation (with poetry) */
-  serverDir: string;
+export interface ErrorResponse {
+  error: string;
 }
 
-export interface VaxPascalStartBody extends StartBodyBase {
-  language: 'vax-pascal';
-  /** Directory containing the vax-pascal-lsp installation (with poetry) */
-  serverDir: string;
+export interface SuccessResponse {
+  success: true;
 }
 
-export interface HlasmStartBody extends StartBodyBase {
-  language: 'hlasm';
-  /** Directory containing the hlasm-lsp installation (with poetry) */
-  serverDir: string;
+export interface StartResponse {
+  capabilities: InitializeResult;
 }
 
-// Union type for all start body variants
-export type StartBody =
-  | TypescriptStartBody
-  | PythonStartBody
-  | JavaStartBody
-  | RustStartBody
-  | RubyStartBody
-  | PerlStartBody
-  | CppStartBody
-  | CsharpStartBody
-  | SqlStartBody
-  | CobolStartBody
-  | BashStartBody
-  | TerraformStartBody
-  | ClojureStartBody
-  | KotlinStartBody
-  | GoStartBody
-  | PhpStartBody
-  | PickbasicStartBody
-  | VaxPascalStartBody
-  | HlasmStartBody;
-
-// Document body types
-export interface DocumentOpenBody {
-  uri: string;
-  languageId: string;
-  text: string;
+export interface StatusResponse {
+  running: boolean;
+  language?: string;
+  capabilities?: InitializeResult | null;
 }
 
-export interface DocumentChangeBody {
-  uri: string;
-  text: string;
+export interface SessionParams {
+  sessionId: string;
 }
 
-export interface DocumentCloseBody {
-  uri: string;
-}
-
-export interface PositionBody {
-  uri: string;
-  line: number;
-  character: number;
+export interface SessionSummary {
+  id: string;
+  language: string;
+  rootUri: string;
 }
 
-export interface ReferencesBody extends PositionBody {
-  includeDeclaration?: boolean;
+export interface SessionResponse extends SessionSummary {
+  capabilities: InitializeResult | null;
 }
 
-export interface SymbolsBody {
-  uri: string;
+export interface SessionsResponse {
+  sessions: SessionSummary[];
 }
 
-// Response types
-
-export interface ErrorResponse {
-  error: string;
+export interface LanguagesQuery {
+  /** Run the preflight checks of each language (default: false) */
+  check?: boolean;
 }
 
-export interface SuccessResponse {
-  success: true;
+// The preflight check results (ready, version, installHint, checks) are only set with ?check=true
+export interface LanguageInfo extends Partial<Omit<LanguageReport, 'id' | 'name'>> {
+  id: string;
+  name: string;
+  /** LSP language identifier used when /document/open gives none */
+  languageId: string;
+  extensions: string[];
+  excludedDirs: string[];
+  /** JSON Schema of the language-specific /start options */
+  options: LanguageOptionsSchema;
 }
 
-export interface StartResponse {
-  capabilities: InitializeResult;
+export interface LanguagesResponse {
+  languages: LanguageInfo[];
 }
 
-export interface StatusResponse {
-  running: boolean;
-  language?: SupportedLanguage;
-  capabilities?: InitializeResult | null;
+export interface RoutingResponse extends RoutingBody {
+  /** File extensions routed to each language */
+  extensions: Record<string, string[]>;
 }
 
 export interface CompletionResponse {
@@ -226,10 +210,18 @@ export interface HoverResponse {
   hover: Hover | null;
 }
 
+export interface SignatureHelpResponse {
+  signatureHelp: SignatureHelp | null;
+}
+
 export interface DefinitionResponse {
   locations: Location | Location[] | LocationLink[] | null;
 }
 
+export interface NavigationResponse {
+  locations: Location[];
+}
+
 export interface ReferencesResponse {
   locations: Location[] | null;
 }
@@ -238,6 +230,29 @@ export interface SymbolsResponse {
   symbols: DocumentSymbol[] | SymbolInformation[] | null;
 }
 
+export interface WorkspaceSymbolsResponse {
+  symbols: (SymbolInformation | WorkspaceSymbol)[];
+  /** Number of matching symbols before paging */
+  total: number;
+}
+
+export interface CodeActionsResponse {
+  actions: (Command | CodeAction)[] | null;
+}
+
+export interface FormatResponse {
+  edits?: TextEdit[] | null;
+  text?: string;
+}
+
+export interface SemanticTokensResponse {
+  tokens: DecodedSemanticToken[];
+}
+
+export interface TypeHierarchyResponse {
+  hierarchy: TypeHierarchyTree[];
+}
+
 export interface DiagnosticsBuffer {
   [uri: string]: Diagnostic[];
 }
@@ -248,13 +263,28 @@ export interface DiagnosticsResponse {
 
 // Internal state
 
-export interface BridgeState {
-  client: LSPClient | null;
-  language: SupportedLanguage | null;
+export interface BridgeSession {
+  id: string;
+  language: string;
+  rootUri: string;
+  client: LSPClient;
   diagnosticsBuffer: Map<string, Diagnostic[]>;
+  /** Settles once the server has started or failed to start; a failed session is unregistered first */
+  started: Promise<void>;
+}
+
+export interface BridgeState {
+  /** Languages that can be started, see GET /languages */
+  registry: LanguageRegistry;
+  /** Running LSP servers by session id; /start and the unscoped routes use the default session */
+  sessions: Map<string, BridgeSession>;
+  /** Where to start servers for files that no running session serves */
+  routing: RoutingBody;
+  /** Lazily started sessions by language and root URI, until their server is up */
+  pendingSessions: Map<string, Promise<BridgeSession>>;
 }
 
-// Error class
+// Error classes
 
 export class BadRequestError extends Error {
   constructor(message: string) {
@@ -262,3 +292,10 @@ export class BadRequestError extends Error {
     this.name = 'BadRequestError';
   }
 }
+
+export class NotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NotFoundError';
+  }
+}
@@ -1,196 +1,51 @@
+import Ajv, { ValidateFunction } from 'ajv';
 import { LSPClient } from '../lsp-client';
-import {
-  StartBody,
-  BadRequestError,
-  TypescriptStartBody,
-  PythonStartBody,
-  JavaStartBody,
-  RustStartBody,
-  RubyStartBody,
-  PerlStartBody,
-  CppStartBody,
-  CsharpStartBody,
-  SqlStartBody,
-  CobolStartBody,
-  BashStartBody,
-  TerraformStartBody,
-  ClojureStartBody,
-  KotlinStartBody,
-  GoStartBody,
-  PhpStartBody,
-  PickbasicStartBody,
-  VaxPascalStartBody,
-  HlasmStartBody,
-} from './bridge-types';
+import { LanguageDefinition, LanguageOptionsSchema, LanguageRegistry } from '../language-registry';
+import { StartBody, BadRequestError } from './bridge-types';
 
-import { createTypescriptLspClient } from '../lsp-server/typescript-lsp-server';
-import { createPythonLspClient } from '../lsp-server/python-lsp-server';
-import { createJavaLspClient } from '../lsp-server/java-lsp-server';
-import { createRustLspClient } from '../lsp-server/rust-lsp-server';
-import { createRubyLspClient } from '../lsp-server/ruby-lsp-server';
-import { createPerlLspClient } from '../lsp-server/perl-lsp-server';
-import { createCppLspClient } from '../lsp-server/cpp-lsp-server';
-import { createCsharpLspClient } from '../lsp-server/csharp-lsp-server';
-import { createSqlLspClient } from '../lsp-server/sql-lsp-server';
-import { createCobolLspClient } from '../lsp-server/cobol-lsp-server';
-import { createBashLspClient } from '../lsp-server/bash-lsp-server';
-import { createTerraformLspClient } from '../lsp-server/terraform-lsp-server';
-import { createClojureLspClient } from '../lsp-server/clojure-lsp-server';
-import { createKotlinLspClient } from '../lsp-server/kotlin-lsp-server';
-import { createGoLspClient } from '../lsp-server/go-lsp-server';
-import { createPhpLspClient } from '../lsp-server/php-lsp-server';
-import { createPickbasicLspClient } from '../lsp-server/pickbasic-lsp-server';
-import { createVaxPascalLspClient } from '../lsp-server/vax-pascal-lsp-server';
-import { createHlasmLspClient } from '../lsp-server/hlasm-lsp-server';
+// Coerces and fills in defaults like the route schemas validated by Fastify
+const ajv = new Ajv({ coerceTypes: 'array', useDefaults: true, strict: false });
+const validators = new WeakMap<LanguageOptionsSchema, ValidateFunction>();
 
-export function createLspClientForLanguage(body: StartBody): LSPClient {
-  switch (body.language) {
-    case 'typescript': {
-      const opts = body as TypescriptStartBody;
-      return createTypescriptLspClient({
-        rootUri: opts.rootUri,
-        serverArgs: opts.serverArgs,
-      });
-    }
-    case 'python': {
-      const opts = body as PythonStartBody;
-      return createPythonLspClient({
-        rootUri: opts.rootUri,
-        serverDir: opts.serverDir,
-        serverArgs: opts.serverArgs,
-      });
-    }
-    case 'java': {
-      const opts = body as JavaStartBody;
-      return createJavaLspClient({
-        rootUri: opts.rootUri,
-        serverArgs: opts.serverArgs,
-      });
-    }
-    case 'rust': {
-      const opts = body as RustStartBody;
-      return createRustLspClient({
-        rootUri: opts.rootUri,
-        serverArgs: opts.serverArgs,
-      });
-    }
-    case 'ruby': {
-      const opts = body as RubyStartBody;
-      return createRubyLspClient({
-        rootUri: opts.rootUri,
-        cwd: opts.cwd,
-        serverArgs: opts.serverArgs,
-      });
-    }
-    case 'perl': {
-      const opts = body as PerlStartBody;
-      return createPerlLspClient({
-        rootUri: opts.rootUri,
-        serverPath: opts.serverPath,
-        serverArgs: opts.serverArgs,
-      });
-    }
-    case 'cpp': {
-      const opts = body as CppStartBody;
-      return createCppLspClient({
-        rootUri: opts.rootUri,
-        serverArgs: opts.serverArgs,
-      });
-    }
-    case 'csharp': {
-      const opts = body as CsharpStartBody;
-      return createCsharpLspClient({
-        rootUri: opts.rootUri,
-        solutionPath: opts.solutionPath,
-        logLevel: opts.logLevel,
-        serverArgs: opts.serverArgs,
-      });
-    }
-    case 'sql': {
-      const opts = body as SqlStartBody;
-      return createSqlLspClient({
-        rootUri: opts.rootUri,
-        serverPath: opts.serverPath,
-        serverArgs: opts.serverArgs,
-      });
-    }
-    case 'cobol': {
-      const opts = body as CobolStartBody;
-      return createCobolLspClient({
-        rootUri: opts.rootUri,
-        serverJar: opts.serverJar,
-        port: opts.port,
-        host: opts.host,
-      });
-    }
-    case 'bash': {
-      const opts = body as BashStartBody;
-      return createBashLspClient({
-        rootUri: opts.rootUri,
-        serverArgs: opts.serverArgs,
-      });
-    }
-    case 'terraform': {
-      const opts = body as TerraformStartBody;
-      return createTerraformLspClient({
-        rootUri: opts.rootUri,
-        serverArgs: opts.serverArgs,
-      });
-    }
-    case 'clojure': {
-      const opts = body as ClojureStartBody;
-      return createClojureLspClient({
-        rootUri: opts.rootUri,
-        serverArgs: opts.serverArgs,
-      });
-    }
-    case 'kotlin': {
-      const opts = body as KotlinStartBody;
-      return createKotlinLspClient({
-        rootUri: opts.rootUri,
-        serverArgs: opts.serverArgs,
-      });
-    }
-    case 'go': {
-      const opts = body as GoStartBody;
-      return createGoLspClient({
-        rootUri: opts.rootUri,
-        serverPath: opts.serverPath,
-        serverArgs: opts.serverArgs,
-      });
-    }
-    case 'php': {
-      const opts = body as PhpStartBody;
-      return createPhpLspClient({
-        rootUri: opts.rootUri,
-        serverArgs: opts.serverArgs,
-      });
-    }
-    case 'pickbasic': {
-      const opts = body as PickbasicStartBody;
-      return createPickbasicLspClient({
-        rootUri: opts.rootUri,
-        serverDir: opts.serverDir,
-        serverArgs: opts.serverArgs,
-      });
-    }
-    case 'vax-pascal': {
-      const opts = body as VaxPascalStartBody;
-      return createVaxPascalLspClient({
-        rootUri: opts.rootUri,
-        serverDir: opts.serverDir,
-        serverArgs: opts.serverArgs,
-      });
-    }
-    case 'hlasm': {
-      const opts = body as HlasmStartBody;
-      return createHlasmLspClient({
-        rootUri: opts.rootUri,
-        serverDir: opts.serverDir,
-        serverArgs: opts.serverArgs,
-      });
-    }
-    default:
-      throw new BadRequestError(`Unsupported language: ${(body as StartBody).language}`);
+export function getLanguage(registry: LanguageRegistry, id: string): LanguageDefinition {
+  const language = registry.get(id);
+  if (!language) {
+    throw new BadRequestError(`Unsupported language: ${id}`);
   }
+  return language;
+}
+
+/**
+ * Validate the language-specific fields of a start body against the
+ * language's optionsSchema and return only the options the schema declares.
+ * Runs per request, so languages registered while the bridge runs are
+ * validated too.
+ */
+export function getLanguageOptions(language: LanguageDefinition, body: Record<string, unknown>): Record<string, unknown> {
+  const options = Object.fromEntries(
+    Object.keys(language.optionsSchema.properties)
+      .filter((key) => body[key] !== undefined)
+      .map((key) => [key, body[key]])
+  );
+
+  let validate = validators.get(language.optionsSchema);
+  if (!validate) {
+    validate = ajv.compile(language.optionsSchema);
+    validators.set(language.optionsSchema, validate);
+  }
+  if (!validate(options)) {
+    throw new BadRequestError(`Invalid ${language.id} options: ${ajv.errorsText(validate.errors, { dataVar: 'options' })}`);
+  }
+  return options;
+}
+
+/**
+ * Create a client for a start body. Only rootUri, serverArgs and the options
+ * declared by the language reach its factory; restart, requestTimeout and
+ * settings are applied to the client by the bridge.
+ */
+export function createLspClientForLanguage(body: StartBody, registry: LanguageRegistry): LSPClient {
+  const language = getLanguage(registry, body.language);
+  const options = getLanguageOptions(language, body);
+  return language.createClient({ ...options, rootUri: body.rootUri, serverArgs: body.serverArgs });
 }
@@ -1,34 +1,51 @@
-import { FastifyInstance } from 'fastify';
-import { BridgeState, DiagnosticsBuffer } from '../bridge-types';
+import { FastifyInstance, FastifyRequest } from 'fastify';
+import { BridgeState, BridgeSession, DiagnosticsBuffer } from '../bridge-types';
 import { DiagnosticsGetRoute, DiagnosticsDeleteRoute } from './route-types';
+import { createRequireScopedSession, getScopedSessionId } from './route-guards';
+
+/** The request's session, or every session for the unscoped routes */
+function sessionsOf(state: BridgeState, request: FastifyRequest): BridgeSession[] {
+  const sessionId = getScopedSessionId(request);
+  return sessionId ? [state.sessions.get(sessionId)!] : [...state.sessions.values()];
+}
 
 export function registerDiagnosticsRoutes(app: FastifyInstance, state: BridgeState): void {
+  const requireScopedSession = createRequireScopedSession(state);
+
   app.get<DiagnosticsGetRoute>('/diagnostics', {
+    preHandler: requireScopedSession,
     schema: {
       description: 'Get cached diagnostics for all files',
       tags: ['diagnostics'],
       response: {
         200: { type: 'object', properties: { diagnostics: { type: 'object' } } },
+        404: { $ref: 'ErrorResponse#' },
       },
     },
-  }, async () => {
+  }, async (request) => {
     const diagnostics: DiagnosticsBuffer = {};
-    state.diagnosticsBuffer.forEach((diags, uri) => {
-      diagnostics[uri] = diags;
-    });
+    for (const session of sessionsOf(state, request)) {
+      session.diagnosticsBuffer.forEach((diags, uri) => {
+        diagnostics[uri] = diags;
+      });
+    }
     return { diagnostics };
   });
 
   app.delete<DiagnosticsDeleteRoute>('/diagnostics', {
+    preHandler: requireScopedSession,
     schema: {
       description: 'Clear all cached diagnostics',
       tags: ['diagnostics'],
       response: {
         200: { $ref: 'SuccessResponse#' },
+        404: { $ref: 'ErrorResponse#' },
       },
     },
-  }, async () => {
-    state.diagnosticsBuffer.clear();
+  }, async (request) => {
+    for (const session of sessionsOf(state, request)) {
+      session.diagnosticsBuffer.clear();
+    }
     return { success: true };
   });
 }
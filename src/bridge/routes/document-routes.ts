@@ -1,7 +1,7 @@
 import { FastifyInstance } from 'fastify';
 import { BridgeState } from '../bridge-types';
 import { DocumentOpenRoute, DocumentChangeRoute, DocumentCloseRoute } from './route-types';
-import { createRequireClient } from './route-guards';
+import { createRequireClient, getSession } from './route-guards';
 
 export function registerDocumentRoutes(app: FastifyInstance, state: BridgeState): void {
   const requireClient = createRequireClient(state);
@@ -9,17 +9,20 @@ export function registerDocumentRoutes(app: FastifyInstance, state: BridgeState)
   app.post<DocumentOpenRoute>('/document/open', {
     preHandler: requireClient,
     schema: {
-      description: 'Open a text document',
+      description: 'Open a text document; languageId defaults to the one of the session\'s language',
       tags: ['document'],
       body: { $ref: 'DocumentOpenBody#' },
       response: {
         200: { $ref: 'SuccessResponse#' },
         400: { $ref: 'ErrorResponse#' },
+        404: { $ref: 'ErrorResponse#' },
       },
     },
   }, async (request) => {
-    const { uri, languageId, text } = request.body;
-    await state.client!.openDocument(uri, languageId, text);
+    const { uri, text } = request.body;
+    const { client, language } = getSession(request);
+    const languageId = request.body.languageId ?? state.registry.get(language)?.languageId ?? language;
+    await client.openDocument(uri, languageId, text);
     return { success: true };
   });
 
@@ -32,11 +35,13 @@ export function registerDocumentRoutes(app: FastifyInstance, state: BridgeState)
       response: {
         200: { $ref: 'SuccessResponse#' },
         400: { $ref: 'ErrorResponse#' },
+        404: { $ref: 'ErrorResponse#' },
       },
     },
   }, async (request) => {
     const { uri, text } = request.body;
-    await state.client!.changeDocument(uri, text);
+    const { client } = getSession(request);
+    await client.changeDocument(uri, text);
     return { success: true };
   });
 
@@ -49,11 +54,13 @@ export function registerDocumentRoutes(app: FastifyInstance, state: BridgeState)
       response: {
         200: { $ref: 'SuccessResponse#' },
         400: { $ref: 'ErrorResponse#' },
+        404: { $ref: 'ErrorResponse#' },
       },
     },
   }, async (request) => {
     const { uri } = request.body;
-    await state.client!.closeDocument(uri);
+    const { client } = getSession(request);
+    await client.closeDocument(uri);
     return { success: true };
   });
 }
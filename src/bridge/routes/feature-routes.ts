@@ -1,13 +1,27 @@
 import { FastifyInstance } from 'fastify';
-import { BridgeState } from '../bridge-types';
+import { Range, FormattingOptions, WorkspaceSymbol } from 'vscode-languageserver-protocol';
+import { BridgeState, BadRequestError } from '../bridge-types';
+import { applyTextEdits } from '../../workspace-edit';
+import { buildTypeHierarchy } from '../../type-hierarchy';
 import {
   CompletionRoute,
   HoverRoute,
+  SignatureHelpRoute,
   DefinitionRoute,
+  NavigationRoute,
   ReferencesRoute,
+  TypeHierarchyRoute,
   SymbolsRoute,
+  WorkspaceSymbolsRoute,
+  CodeActionsRoute,
+  CodeActionApplyRoute,
+  FormatRoute,
+  SemanticTokensRoute,
 } from './route-types';
-import { createRequireClient } from './route-guards';
+import { createRequireClient, getSession } from './route-guards';
+
+const DEFAULT_WORKSPACE_SYMBOLS_LIMIT = 100;
+const DEFAULT_FORMATTING_OPTIONS: FormattingOptions = { tabSize: 4, insertSpaces: true };
 
 export function registerFeatureRoutes(app: FastifyInstance, state: BridgeState): void {
   const requireClient = createRequireClient(state);
@@ -21,11 +35,13 @@ export function registerFeatureRoutes(app: FastifyInstance, state: BridgeState):
       response: {
         200: { type: 'object', properties: { items: { type: ['array', 'object', 'null'] } } },
         400: { $ref: 'ErrorResponse#' },
+        404: { $ref: 'ErrorResponse#' },
       },
     },
   }, async (request) => {
     const { uri, line, character } = request.body;
-    const result = await state.client!.getCompletion(uri, line, character);
+    const { client } = getSession(request);
+    const result = await client.getCompletion(uri, line, character);
     return { items: result };
   });
 
@@ -38,14 +54,35 @@ export function registerFeatureRoutes(app: FastifyInstance, state: BridgeState):
       response: {
         200: { type: 'object', properties: { hover: { type: ['object', 'null'] } } },
         400: { $ref: 'ErrorResponse#' },
+        404: { $ref: 'ErrorResponse#' },
       },
     },
   }, async (request) => {
     const { uri, line, character } = request.body;
-    const result = await state.client!.getHover(uri, line, character);
+    const { client } = getSession(request);
+    const result = await client.getHover(uri, line, character);
     return { hover: result };
   });
 
+  app.post<SignatureHelpRoute>('/signature-help', {
+    preHandler: requireClient,
+    schema: {
+      description: 'Get signature help (parameters and active parameter) at a call site',
+      tags: ['features'],
+      body: { $ref: 'PositionBody#' },
+      response: {
+        200: { type: 'object', properties: { signatureHelp: { type: ['object', 'null'] } } },
+        400: { $ref: 'ErrorResponse#' },
+        404: { $ref: 'ErrorResponse#' },
+      },
+    },
+  }, async (request) => {
+    const { uri, line, character } = request.body;
+    const { client } = getSession(request);
+    const result = await client.getSignatureHelp(uri, line, character);
+    return { signatureHelp: result };
+  });
+
   app.post<DefinitionRoute>('/definition', {
     preHandler: requireClient,
     schema: {
@@ -55,11 +92,70 @@ export function registerFeatureRoutes(app: FastifyInstance, state: BridgeState):
       response: {
         200: { type: 'object', properties: { locations: { type: ['array', 'null'] } } },
         400: { $ref: 'ErrorResponse#' },
+        404: { $ref: 'ErrorResponse#' },
       },
     },
   }, async (request) => {
     const { uri, line, character } = request.body;
-    const result = await state.client!.getDefinition(uri, line, character);
+    const { client } = getSession(request);
+    const result = await client.getDefinition(uri, line, character);
+    return { locations: result };
+  });
+
+  app.post<NavigationRoute>('/implementation', {
+    preHandler: requireClient,
+    schema: {
+      description: 'Find implementations of the interface or abstract member at a position',
+      tags: ['features'],
+      body: { $ref: 'PositionBody#' },
+      response: {
+        200: { type: 'object', properties: { locations: { type: 'array' } } },
+        400: { $ref: 'ErrorResponse#' },
+        404: { $ref: 'ErrorResponse#' },
+      },
+    },
+  }, async (request) => {
+    const { uri, line, character } = request.body;
+    const { client } = getSession(request);
+    const result = await client.getImplementation(uri, line, character);
+    return { locations: result };
+  });
+
+  app.post<NavigationRoute>('/type-definition', {
+    preHandler: requireClient,
+    schema: {
+      description: 'Go to the type definition of the symbol at a position',
+      tags: ['features'],
+      body: { $ref: 'PositionBody#' },
+      response: {
+        200: { type: 'object', properties: { locations: { type: 'array' } } },
+        400: { $ref: 'ErrorResponse#' },
+        404: { $ref: 'ErrorResponse#' },
+      },
+    },
+  }, async (request) => {
+    const { uri, line, character } = request.body;
+    const { client } = getSession(request);
+    const result = await client.getTypeDefinition(uri, line, character);
+    return { locations: result };
+  });
+
+  app.post<NavigationRoute>('/declaration', {
+    preHandler: requireClient,
+    schema: {
+      description: 'Go to the declaration of the symbol at a position',
+      tags: ['features'],
+      body: { $ref: 'PositionBody#' },
+      response: {
+        200: { type: 'object', properties: { locations: { type: 'array' } } },
+        400: { $ref: 'ErrorResponse#' },
+        404: { $ref: 'ErrorResponse#' },
+      },
+    },
+  }, async (request) => {
+    const { uri, line, character } = request.body;
+    const { client } = getSession(request);
+    const result = await client.getDeclaration(uri, line, character);
     return { locations: result };
   });
 
@@ -72,14 +168,35 @@ export function registerFeatureRoutes(app: FastifyInstance, state: BridgeState):
       response: {
         200: { type: 'object', properties: { locations: { type: ['array', 'null'] } } },
         400: { $ref: 'ErrorResponse#' },
+        404: { $ref: 'ErrorResponse#' },
       },
     },
   }, async (request) => {
     const { uri, line, character, includeDeclaration = true } = request.body;
-    const result = await state.client!.getReferences(uri, line, character, includeDeclaration);
+    const { client } = getSession(request);
+    const result = await client.getReferences(uri, line, character, includeDeclaration);
     return { locations: result };
   });
 
+  app.post<TypeHierarchyRoute>('/type-hierarchy', {
+    preHandler: requireClient,
+    schema: {
+      description: 'Get the inheritance tree (supertypes and subtypes) of the type at a position',
+      tags: ['features'],
+      body: { $ref: 'TypeHierarchyBody#' },
+      response: {
+        200: { type: 'object', properties: { hierarchy: { type: 'array' } } },
+        400: { $ref: 'ErrorResponse#' },
+        404: { $ref: 'ErrorResponse#' },
+      },
+    },
+  }, async (request) => {
+    const { uri, line, character, maxDepth } = request.body;
+    const { client } = getSession(request);
+    const hierarchy = await buildTypeHierarchy(client, uri, line, character, { maxDepth });
+    return { hierarchy };
+  });
+
   app.post<SymbolsRoute>('/symbols', {
     preHandler: requireClient,
     schema: {
@@ -89,11 +206,162 @@ export function registerFeatureRoutes(app: FastifyInstance, state: BridgeState):
       response: {
         200: { type: 'object', properties: { symbols: { type: ['array', 'null'] } } },
         400: { $ref: 'ErrorResponse#' },
+        404: { $ref: 'ErrorResponse#' },
       },
     },
   }, async (request) => {
     const { uri } = request.body;
-    const result = await state.client!.getDocumentSymbols(uri);
+    const { client } = getSession(request);
+    const result = await client.getDocumentSymbols(uri);
     return { symbols: result };
   });
+
+  app.post<WorkspaceSymbolsRoute>('/workspace-symbols', {
+    preHandler: requireClient,
+    schema: {
+      description: 'Search symbols across the workspace; unscoped requests use the default session',
+      tags: ['features'],
+      body: { $ref: 'WorkspaceSymbolsBody#' },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            symbols: { type: 'array' },
+            total: { type: 'number' },
+          },
+        },
+        400: { $ref: 'ErrorResponse#' },
+        404: { $ref: 'ErrorResponse#' },
+      },
+    },
+  }, async (request) => {
+    const {
+      query,
+      kinds,
+      offset = 0,
+      limit = DEFAULT_WORKSPACE_SYMBOLS_LIMIT,
+      resolve = false,
+    } = request.body;
+    const { client } = getSession(request);
+
+    const result = await client.getWorkspaceSymbols(query) ?? [];
+    const matching = kinds
+      ? result.filter((symbol) => kinds.includes(symbol.kind))
+      : result;
+    let page = matching.slice(offset, offset + limit);
+
+    if (resolve && client.supportsWorkspaceSymbolResolve()) {
+      page = await Promise.all(page.map((symbol) =>
+        'range' in symbol.location ? symbol : client.resolveWorkspaceSymbol(symbol as WorkspaceSymbol)
+      ));
+    }
+
+    return { symbols: page, total: matching.length };
+  });
+
+  app.post<CodeActionsRoute>('/code-actions', {
+    preHandler: requireClient,
+    schema: {
+      description: 'Get code actions (quick fixes, refactorings) for a range',
+      tags: ['features'],
+      body: { $ref: 'CodeActionsBody#' },
+      response: {
+        200: { type: 'object', properties: { actions: { type: ['array', 'null'] } } },
+        400: { $ref: 'ErrorResponse#' },
+        404: { $ref: 'ErrorResponse#' },
+      },
+    },
+  }, async (request) => {
+    const { uri, range, only } = request.body;
+    const { client, diagnosticsBuffer } = getSession(request);
+    const diagnostics = request.body.diagnostics
+      ?? (diagnosticsBuffer.get(uri) ?? []).filter((d) => rangesOverlap(d.range, range));
+    const result = await client.getCodeActions(uri, range, { diagnostics, only });
+    return { actions: result };
+  });
+
+  app.post<CodeActionApplyRoute>('/code-actions/apply', {
+    preHandler: requireClient,
+    schema: {
+      description: 'Apply a code action: resolve it if needed, apply its edit and run its command; unscoped requests use the default session',
+      tags: ['features'],
+      body: { $ref: 'CodeActionApplyBody#' },
+      response: {
+        200: { $ref: 'SuccessResponse#' },
+        400: { $ref: 'ErrorResponse#' },
+        404: { $ref: 'ErrorResponse#' },
+      },
+    },
+  }, async (request) => {
+    const { client } = getSession(request);
+    await client.applyCodeAction(request.body.action);
+    return { success: true };
+  });
+
+  app.post<FormatRoute>('/format', {
+    preHandler: requireClient,
+    schema: {
+      description: 'Format a document or a range, returning the edits or the formatted text',
+      tags: ['features'],
+      body: { $ref: 'FormatBody#' },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            edits: { type: ['array', 'null'] },
+            text: { type: 'string' },
+          },
+        },
+        400: { $ref: 'ErrorResponse#' },
+        404: { $ref: 'ErrorResponse#' },
+      },
+    },
+  }, async (request) => {
+    const { uri, range, options = DEFAULT_FORMATTING_OPTIONS, returnText = false } = request.body;
+    const { client } = getSession(request);
+
+    const doc = client.getOpenDocument(uri);
+    if (returnText && !doc) {
+      throw new BadRequestError(`Document ${uri} is not open`);
+    }
+
+    const edits = range
+      ? await client.formatRange(uri, range, options)
+      : await client.formatDocument(uri, options);
+
+    if (returnText) {
+      return { text: applyTextEdits(doc!.text, edits ?? []) };
+    }
+    return { edits };
+  });
+
+  app.post<SemanticTokensRoute>('/semantic-tokens', {
+    preHandler: requireClient,
+    schema: {
+      description: 'Get decoded semantic tokens for a document or a range',
+      tags: ['features'],
+      body: { $ref: 'SemanticTokensBody#' },
+      response: {
+        200: { type: 'object', properties: { tokens: { type: 'array' } } },
+        400: { $ref: 'ErrorResponse#' },
+        404: { $ref: 'ErrorResponse#' },
+      },
+    },
+  }, async (request) => {
+    const { uri, range } = request.body;
+    const { client } = getSession(request);
+
+    if (!client.getSemanticTokensLegend()) {
+      throw new BadRequestError('LSP server does not provide semantic tokens');
+    }
+
+    const tokens = await client.getDecodedSemanticTokens(uri, range);
+    return { tokens };
+  });
+}
+
+function rangesOverlap(a: Range, b: Range): boolean {
+  const before = (x: Range['start'], y: Range['start']) =>
+    x.line < y.line || (x.line === y.line && x.character < y.character);
+  return !before(a.end, b.start) && !before(b.end, a.start);
 }
@@ -1,4 +1,6 @@
 export { registerLifecycleRoutes } from './lifecycle-routes';
+export { registerSessionRoutes, SESSION_PARAMS_SCHEMA } from './session-routes';
+export { registerLanguageRoutes } from './language-routes';
 export { registerDocumentRoutes } from './document-routes';
 export { registerFeatureRoutes } from './feature-routes';
 export { registerDiagnosticsRoutes } from './diagnostics-routes';
@@ -0,0 +1,75 @@
+import { FastifyInstance } from 'fastify';
+import { BridgeState, LanguageInfo } from '../bridge-types';
+import { doctor } from '../../doctor';
+import { LanguagesRoute } from './route-types';
+
+export function registerLanguageRoutes(app: FastifyInstance, state: BridgeState): void {
+  app.get<LanguagesRoute>('/languages', {
+    schema: {
+      description: 'List the languages that can be started, with their file extensions and /start options. '
+        + 'With check=true, also whether their server is installed here, using the options configured by /routing.',
+      tags: ['languages'],
+      querystring: {
+        type: 'object',
+        properties: {
+          check: { type: 'boolean', default: false, description: 'Run the preflight checks of each language' },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            languages: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  name: { type: 'string' },
+                  languageId: { type: 'string' },
+                  extensions: { type: 'array', items: { type: 'string' } },
+                  excludedDirs: { type: 'array', items: { type: 'string' } },
+                  options: { type: 'object', additionalProperties: true },
+                  ready: { type: 'boolean' },
+                  version: { type: 'string' },
+                  installHint: { type: 'string' },
+                  checks: {
+                    type: 'array',
+                    items: {
+                      type: 'object',
+                      properties: {
+                        kind: { type: 'string', enum: ['executable', 'jar', 'directory', 'poetry'] },
+                        target: { type: 'string' },
+                        option: { type: 'string' },
+                        found: { type: 'boolean' },
+                        path: { type: 'string' },
+                        version: { type: 'string' },
+                        error: { type: 'string' },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  }, async (request) => {
+    const languages: LanguageInfo[] = state.registry.list().map((language) => ({
+      id: language.id,
+      name: language.name,
+      languageId: language.languageId ?? language.id,
+      extensions: language.extensions,
+      excludedDirs: language.excludedDirs,
+      options: language.optionsSchema,
+    }));
+    if (!request.query.check) {
+      return { languages };
+    }
+
+    // The checks run version commands, so only on request
+    const reports = await doctor(state.registry, state.routing.languages);
+    return { languages: languages.map((language, index) => ({ ...language, ...reports[index] })) };
+  });
+}
@@ -1,9 +1,12 @@
 import { FastifyInstance } from 'fastify';
 import { BridgeState } from '../bridge-types';
-import { createLspClientForLanguage } from '../lsp-client-factory';
-import { StartRoute, StopRoute, StatusRoute } from './route-types';
+import { DEFAULT_SESSION_ID, startSession, stopSession } from '../bridge-sessions';
+import { StartRoute, StopRoute, SettingsRoute, StatusRoute } from './route-types';
+import { createRequireClient, getSession } from './route-guards';
 
 export function registerLifecycleRoutes(app: FastifyInstance, state: BridgeState): void {
+  const requireClient = createRequireClient(state);
+
   app.post<StartRoute>('/start', {
     schema: {
       description: 'Start an LSP server for the specified language',
@@ -15,28 +18,13 @@ export function registerLifecycleRoutes(app: FastifyInstance, state: BridgeState
       },
     },
   }, async (request, reply) => {
-    if (state.client) {
+    if (state.sessions.has(DEFAULT_SESSION_ID)) {
       reply.code(400);
       return { error: 'LSP server already running. Stop it first.' };
     }
 
-    const body = request.body;
-
-    try {
-      state.client = createLspClientForLanguage(body);
-      state.language = body.language;
-
-      state.client.onDiagnostics((params) => {
-        state.diagnosticsBuffer.set(params.uri, params.diagnostics);
-      });
-
-      const capabilities = await state.client.start();
-      return { capabilities };
-    } catch (err) {
-      state.client = null;
-      state.language = null;
-      throw err;
-    }
+    const capabilities = await startSession(state, DEFAULT_SESSION_ID, request.body, app.log);
+    return { capabilities };
   });
 
   app.post<StopRoute>('/stop', {
@@ -49,12 +37,23 @@ export function registerLifecycleRoutes(app: FastifyInstance, state: BridgeState
       },
     },
   }, async () => {
-    if (state.client) {
-      await state.client.stop();
-      state.client = null;
-      state.language = null;
-      state.diagnosticsBuffer.clear();
-    }
+    await stopSession(state, DEFAULT_SESSION_ID);
+    return { success: true };
+  });
+
+  app.post<SettingsRoute>('/settings', {
+    preHandler: requireClient,
+    schema: {
+      description: 'Replace the LSP server settings and notify the server (workspace/didChangeConfiguration)',
+      tags: ['lifecycle'],
+      body: { $ref: 'SettingsBody#' },
+      response: {
+        200: { $ref: 'SuccessResponse#' },
+        400: { $ref: 'ErrorResponse#' },
+      },
+    },
+  }, async (request) => {
+    await getSession(request).client.updateSettings(request.body.settings);
     return { success: true };
   });
 
@@ -74,13 +73,14 @@ export function registerLifecycleRoutes(app: FastifyInstance, state: BridgeState
       },
     },
   }, async () => {
-    if (!state.client) {
+    const session = state.sessions.get(DEFAULT_SESSION_ID);
+    if (!session) {
       return { running: false };
     }
     return {
       running: true,
-      language: state.language ?? undefined,
-      capabilities: state.client.getServerCapabilities(),
+      language: session.language,
+      capabilities: session.client.getServerCapabilities(),
     };
   });
 }
@@ -1,10 +1,76 @@
 import { FastifyRequest, FastifyReply } from 'fastify';
-import { BridgeState } from '../bridge-types';
+import { BridgeState, BridgeSession } from '../bridge-types';
+import { DEFAULT_SESSION_ID } from '../bridge-sessions';
+import { routeToSession } from '../session-routing';
 
+// Sessions resolved by requireClient, including lazily started ones
+const resolvedSessions = new WeakMap<FastifyRequest, BridgeSession>();
+
+/**
+ * The :sessionId route parameter of a request scoped to a session.
+ */
+export function getScopedSessionId(request: FastifyRequest): string | undefined {
+  return (request.params as { sessionId?: string } | undefined)?.sessionId;
+}
+
+/**
+ * The session of a request that passed requireClient.
+ */
+export function getSession(request: FastifyRequest): BridgeSession {
+  return resolvedSessions.get(request)!;
+}
+
+/**
+ * Wait until a session's server has started. False if the start failed and
+ * the session is gone.
+ */
+async function whenStarted(state: BridgeState, session: BridgeSession): Promise<boolean> {
+  await session.started;
+  return state.sessions.get(session.id) === session;
+}
+
+/**
+ * Resolve the session of a request: the one named by its :sessionId route
+ * parameter, else the one serving the document in its body (see
+ * routeToSession), else the default session. Waits for a session that is
+ * still starting.
+ */
 export function createRequireClient(state: BridgeState) {
-  return async (_request: FastifyRequest, reply: FastifyReply): Promise<void> => {
-    if (!state.client) {
-      return reply.code(400).send({ error: 'LSP server not running. Call /start first.' });
+  return async (request: FastifyRequest, reply: FastifyReply): Promise<void> => {
+    const sessionId = getScopedSessionId(request);
+    if (sessionId) {
+      const session = state.sessions.get(sessionId);
+      if (!session || !(await whenStarted(state, session))) {
+        return reply.code(404).send({ error: `Session not found: ${sessionId}` });
+      }
+      resolvedSessions.set(request, session);
+      return;
+    }
+
+    const uri = (request.body as { uri?: unknown } | undefined)?.uri;
+    const session = (typeof uri === 'string' ? await routeToSession(state, uri, request.log) : undefined)
+      ?? state.sessions.get(DEFAULT_SESSION_ID);
+    if (!session) {
+      const error = typeof uri === 'string'
+        ? `No LSP server for ${uri}. Call /start or configure /routing first.`
+        : 'LSP server not running. Call /start first.';
+      return reply.code(400).send({ error });
+    }
+    if (!(await whenStarted(state, session))) {
+      return reply.code(400).send({ error: `LSP server for ${session.language} failed to start` });
+    }
+    resolvedSessions.set(request, session);
+  };
+}
+
+/**
+ * Like requireClient, but lets unscoped requests through without a default session.
+ */
+export function createRequireScopedSession(state: BridgeState) {
+  return async (request: FastifyRequest, reply: FastifyReply): Promise<void> => {
+    const sessionId = getScopedSessionId(request);
+    if (sessionId && !state.sessions.has(sessionId)) {
+      return reply.code(404).send({ error: `Session not found: ${sessionId}` });
     }
   };
 }
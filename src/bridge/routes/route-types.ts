@@ -1,20 +1,41 @@
 import {
   StartBody,
+  SettingsBody,
+  RoutingBody,
   DocumentOpenBody,
   DocumentChangeBody,
   DocumentCloseBody,
   PositionBody,
   ReferencesBody,
+  TypeHierarchyBody,
   SymbolsBody,
+  WorkspaceSymbolsBody,
+  CodeActionsBody,
+  CodeActionApplyBody,
+  FormatBody,
+  SemanticTokensBody,
   ErrorResponse,
   SuccessResponse,
   StartResponse,
   StatusResponse,
+  SessionParams,
+  SessionResponse,
+  SessionsResponse,
+  RoutingResponse,
+  LanguagesQuery,
+  LanguagesResponse,
   CompletionResponse,
   HoverResponse,
+  SignatureHelpResponse,
   DefinitionResponse,
+  NavigationResponse,
   ReferencesResponse,
   SymbolsResponse,
+  WorkspaceSymbolsResponse,
+  CodeActionsResponse,
+  FormatResponse,
+  SemanticTokensResponse,
+  TypeHierarchyResponse,
   DiagnosticsResponse,
 } from '../bridge-types';
 
@@ -27,10 +48,54 @@ export type StopRoute = {
   Reply: SuccessResponse | ErrorResponse;
 };
 
+export type SettingsRoute = {
+  Body: SettingsBody;
+  Reply: SuccessResponse | ErrorResponse;
+};
+
 export type StatusRoute = {
   Reply: StatusResponse;
 };
 
+export type SessionCreateRoute = {
+  Body: StartBody;
+  Reply: SessionResponse | ErrorResponse;
+};
+
+export type SessionListRoute = {
+  Reply: SessionsResponse;
+};
+
+export type SessionGetRoute = {
+  Params: SessionParams;
+  Reply: SessionResponse | ErrorResponse;
+};
+
+export type SessionDeleteRoute = {
+  Params: SessionParams;
+  Reply: SuccessResponse | ErrorResponse;
+};
+
+export type SessionSettingsRoute = {
+  Params: SessionParams;
+  Body: SettingsBody;
+  Reply: SuccessResponse | ErrorResponse;
+};
+
+export type RoutingSetRoute = {
+  Body: RoutingBody;
+  Reply: SuccessResponse | ErrorResponse;
+};
+
+export type RoutingGetRoute = {
+  Reply: RoutingResponse;
+};
+
+export type LanguagesRoute = {
+  Querystring: LanguagesQuery;
+  Reply: LanguagesResponse;
+};
+
 export type DocumentOpenRoute = {
   Body: DocumentOpenBody;
   Reply: SuccessResponse | ErrorResponse;
@@ -56,21 +121,61 @@ export type HoverRoute = {
   Reply: HoverResponse | ErrorResponse;
 };
 
+export type SignatureHelpRoute = {
+  Body: PositionBody;
+  Reply: SignatureHelpResponse | ErrorResponse;
+};
+
 export type DefinitionRoute = {
   Body: PositionBody;
   Reply: DefinitionResponse | ErrorResponse;
 };
 
+export type NavigationRoute = {
+  Body: PositionBody;
+  Reply: NavigationResponse | ErrorResponse;
+};
+
 export type ReferencesRoute = {
   Body: ReferencesBody;
   Reply: ReferencesResponse | ErrorResponse;
 };
 
+export type TypeHierarchyRoute = {
+  Body: TypeHierarchyBody;
+  Reply: TypeHierarchyResponse | ErrorResponse;
+};
+
 export type SymbolsRoute = {
   Body: SymbolsBody;
   Reply: SymbolsResponse | ErrorResponse;
 };
 
+export type WorkspaceSymbolsRoute = {
+  Body: WorkspaceSymbolsBody;
+  Reply: WorkspaceSymbolsResponse | ErrorResponse;
+};
+
+export type CodeActionsRoute = {
+  Body: CodeActionsBody;
+  Reply: CodeActionsResponse | ErrorResponse;
+};
+
+export type CodeActionApplyRoute = {
+  Body: CodeActionApplyBody;
+  Reply: SuccessResponse | ErrorResponse;
+};
+
+export type FormatRoute = {
+  Body: FormatBody;
+  Reply: FormatResponse | ErrorResponse;
+};
+
+export type SemanticTokensRoute = {
+  Body: SemanticTokensBody;
+  Reply: SemanticTokensResponse | ErrorResponse;
+};
+
 export type DiagnosticsGetRoute = {
   Reply: DiagnosticsResponse;
 };
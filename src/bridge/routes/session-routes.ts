@@ -0,0 +1,170 @@
+import { randomUUID } from 'crypto';
+import { FastifyInstance } from 'fastify';
+import { BridgeState, BridgeSession, SessionSummary, NotFoundError } from '../bridge-types';
+import { startSession, stopSession } from '../bridge-sessions';
+import { getLanguage, getLanguageOptions } from '../lsp-client-factory';
+import {
+  SessionCreateRoute,
+  SessionListRoute,
+  SessionGetRoute,
+  SessionDeleteRoute,
+  SessionSettingsRoute,
+  RoutingSetRoute,
+  RoutingGetRoute,
+} from './route-types';
+import { createRequireClient, getSession } from './route-guards';
+
+export const SESSION_PARAMS_SCHEMA = {
+  type: 'object',
+  properties: { sessionId: { type: 'string', description: 'Id returned by POST /sessions' } },
+  required: ['sessionId'],
+};
+
+const SESSION_SUMMARY_PROPERTIES = {
+  id: { type: 'string' },
+  language: { type: 'string' },
+  rootUri: { type: 'string' },
+};
+
+const SESSION_RESPONSE_SCHEMA = {
+  type: 'object',
+  properties: {
+    ...SESSION_SUMMARY_PROPERTIES,
+    capabilities: { type: ['object', 'null'], additionalProperties: true },
+  },
+};
+
+function toSummary(session: BridgeSession): SessionSummary {
+  return { id: session.id, language: session.language, rootUri: session.rootUri };
+}
+
+export function registerSessionRoutes(app: FastifyInstance, state: BridgeState): void {
+  const requireClient = createRequireClient(state);
+
+  app.post<SessionCreateRoute>('/sessions', {
+    schema: {
+      description: 'Start an LSP server in a new session; use the returned id in /sessions/{sessionId}/... routes',
+      tags: ['sessions'],
+      body: { $ref: 'StartBody#' },
+      response: {
+        200: SESSION_RESPONSE_SCHEMA,
+        400: { $ref: 'ErrorResponse#' },
+      },
+    },
+  }, async (request) => {
+    const id = randomUUID();
+    const capabilities = await startSession(state, id, request.body, app.log);
+    return { id, language: request.body.language, rootUri: request.body.rootUri, capabilities };
+  });
+
+  app.get<SessionListRoute>('/sessions', {
+    schema: {
+      description: 'List the running sessions',
+      tags: ['sessions'],
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            sessions: {
+              type: 'array',
+              items: { type: 'object', properties: SESSION_SUMMARY_PROPERTIES },
+            },
+          },
+        },
+      },
+    },
+  }, async () => {
+    return { sessions: [...state.sessions.values()].map(toSummary) };
+  });
+
+  app.get<SessionGetRoute>('/sessions/:sessionId', {
+    preHandler: requireClient,
+    schema: {
+      description: 'Get a session and the capabilities of its LSP server',
+      tags: ['sessions'],
+      params: SESSION_PARAMS_SCHEMA,
+      response: {
+        200: SESSION_RESPONSE_SCHEMA,
+        404: { $ref: 'ErrorResponse#' },
+      },
+    },
+  }, async (request) => {
+    const session = getSession(request);
+    return { ...toSummary(session), capabilities: session.client.getServerCapabilities() };
+  });
+
+  app.delete<SessionDeleteRoute>('/sessions/:sessionId', {
+    schema: {
+      description: 'Stop the LSP server of a session and delete the session',
+      tags: ['sessions'],
+      params: SESSION_PARAMS_SCHEMA,
+      response: {
+        200: { $ref: 'SuccessResponse#' },
+        404: { $ref: 'ErrorResponse#' },
+      },
+    },
+  }, async (request) => {
+    const { sessionId } = request.params;
+    if (!(await stopSession(state, sessionId))) {
+      throw new NotFoundError(`Session not found: ${sessionId}`);
+    }
+    return { success: true };
+  });
+
+  app.post<SessionSettingsRoute>('/sessions/:sessionId/settings', {
+    preHandler: requireClient,
+    schema: {
+      description: 'Replace the settings of a session\'s LSP server and notify the server (workspace/didChangeConfiguration)',
+      tags: ['sessions'],
+      params: SESSION_PARAMS_SCHEMA,
+      body: { $ref: 'SettingsBody#' },
+      response: {
+        200: { $ref: 'SuccessResponse#' },
+        404: { $ref: 'ErrorResponse#' },
+      },
+    },
+  }, async (request) => {
+    await getSession(request).client.updateSettings(request.body.settings);
+    return { success: true };
+  });
+
+  app.post<RoutingSetRoute>('/routing', {
+    schema: {
+      description: 'Set the workspace roots and per-language start options used to start servers for routed documents',
+      tags: ['sessions'],
+      body: { $ref: 'RoutingBody#' },
+      response: {
+        200: { $ref: 'SuccessResponse#' },
+        400: { $ref: 'ErrorResponse#' },
+      },
+    },
+  }, async (request) => {
+    for (const [id, options] of Object.entries(request.body.languages ?? {})) {
+      getLanguageOptions(getLanguage(state.registry, id), options);
+    }
+    state.routing = request.body;
+    return { success: true };
+  });
+
+  app.get<RoutingGetRoute>('/routing', {
+    schema: {
+      description: 'Get the routing configuration and the file extensions routed to each language',
+      tags: ['sessions'],
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            roots: { type: 'array', items: { type: 'string' } },
+            languages: { type: 'object', additionalProperties: true },
+            extensions: { type: 'object', additionalProperties: { type: 'array', items: { type: 'string' } } },
+          },
+        },
+      },
+    },
+  }, async () => {
+    const extensions = Object.fromEntries(
+      state.registry.list().map((language) => [language.id, language.extensions])
+    );
+    return { ...state.routing, extensions };
+  });
+}
@@ -0,0 +1,82 @@
+import { randomUUID } from 'crypto';
+import { FastifyBaseLogger } from 'fastify';
+import { BridgeState, BridgeSession, StartBody, BadRequestError } from './bridge-types';
+import { startSession } from './bridge-sessions';
+
+function isWithinRoot(uri: string, rootUri: string): boolean {
+  const root = rootUri.endsWith('/') ? rootUri : `${rootUri}/`;
+  return uri === rootUri || uri.startsWith(root);
+}
+
+/** The longest of the roots containing the URI */
+function innermostRoot(uri: string, roots: string[]): string | undefined {
+  return roots
+    .filter((root) => isWithinRoot(uri, root))
+    .sort((a, b) => b.length - a.length)[0];
+}
+
+/**
+ * The running session for a file's language whose workspace root most
+ * closely contains the file.
+ */
+export function findSessionForUri(state: BridgeState, uri: string): BridgeSession | undefined {
+  const language = state.registry.getByFile(uri)?.id;
+  if (!language) {
+    return undefined;
+  }
+
+  const sessions = [...state.sessions.values()].filter((session) => session.language === language);
+  const root = innermostRoot(uri, sessions.map((session) => session.rootUri));
+  return sessions.find((session) => session.rootUri === root);
+}
+
+/**
+ * Route a file to the session that serves it. If no running session does,
+ * start one for the innermost configured workspace root containing the file.
+ * Returns undefined when the file's language is unknown or no root contains it,
+ * and throws a BadRequestError when the server fails to start.
+ */
+export async function routeToSession(
+  state: BridgeState,
+  uri: string,
+  log: FastifyBaseLogger
+): Promise<BridgeSession | undefined> {
+  const language = state.registry.getByFile(uri)?.id;
+  if (!language) {
+    return undefined;
+  }
+
+  const rootUri = innermostRoot(uri, state.routing.roots);
+  const key = `${language} ${rootUri}`;
+  const pending = rootUri ? state.pendingSessions.get(key) : undefined;
+  if (pending) {
+    return pending;
+  }
+
+  const running = findSessionForUri(state, uri);
+  // A session with a wider root still loses to a configured root closer to the file
+  if (running && (!rootUri || isWithinRoot(running.rootUri, rootUri))) {
+    return running;
+  }
+  if (!rootUri) {
+    return undefined;
+  }
+
+  const body: StartBody = { ...state.routing.languages?.[language], language, rootUri };
+  const id = randomUUID();
+  log.info(`Starting LSP server for ${language} in ${rootUri} (session ${id})`);
+  const starting = startSession(state, id, body, log)
+    .then(() => {
+      const session = state.sessions.get(id);
+      if (!session) {
+        throw new Error('the server stopped while starting');
+      }
+      return session;
+    })
+    .catch((err: Error) => {
+      throw new BadRequestError(`Could not start the LSP server for ${language} in ${rootUri}: ${err.message}`);
+    })
+    .finally(() => state.pendingSessions.delete(key));
+  state.pendingSessions.set(key, starting);
+  return starting;
+}
@@ -0,0 +1,130 @@
+import { CallHierarchyItem, Range } from 'vscode-languageserver-protocol';
+import { LSPClient } from './lsp-client';
+
+export type CallGraphDirection = 'incoming' | 'outgoing' | 'both';
+
+/** The subset of LSPClient used to walk the call hierarchy */
+export type CallHierarchyProvider = Pick<
+  LSPClient,
+  'prepareCallHierarchy' | 'getIncomingCalls' | 'getOutgoingCalls'
+>;
+
+export interface CallGraphOptions {
+  /** Which calls to follow (default: 'outgoing') */
+  direction?: CallGraphDirection;
+  /** Maximum number of call levels to follow from the entry symbol (default: 3) */
+  maxDepth?: number;
+}
+
+export interface CallGraphNode {
+  /** Stable identifier derived from the item's URI, position and name */
+  id: string;
+  item: CallHierarchyItem;
+  /** Number of calls between the entry symbol and this node */
+  depth: number;
+}
+
+export interface CallGraphEdge {
+  /** Id of the calling node */
+  from: string;
+  /** Id of the called node */
+  to: string;
+  /** Ranges of the call sites within the caller */
+  fromRanges: Range[];
+}
+
+export interface CallGraph {
+  /** Ids of the entry nodes resolved at the requested position */
+  roots: string[];
+  nodes: CallGraphNode[];
+  edges: CallGraphEdge[];
+}
+
+const DEFAULT_MAX_DEPTH = 3;
+
+function nodeId(item: CallHierarchyItem): string {
+  const { line, character } = item.selectionRange.start;
+  return `${item.uri}#${line}:${character}:${item.name}`;
+}
+
+function sameRange(a: Range, b: Range): boolean {
+  return a.start.line === b.start.line && a.start.character === b.start.character
+    && a.end.line === b.end.line && a.end.character === b.end.character;
+}
+
+/**
+ * Walk the call hierarchy from the symbol at a position, breadth first, up to
+ * maxDepth levels. Every symbol appears once in the resulting graph and edges
+ * always point from caller to callee, whichever direction is being followed.
+ */
+export async function buildCallGraph(
+  client: CallHierarchyProvider,
+  uri: string,
+  line: number,
+  character: number,
+  options: CallGraphOptions = {}
+): Promise<CallGraph> {
+  const { direction = 'outgoing', maxDepth = DEFAULT_MAX_DEPTH } = options;
+
+  const nodes = new Map<string, CallGraphNode>();
+  const edges = new Map<string, CallGraphEdge>();
+
+  const addNode = (item: CallHierarchyItem, depth: number): { id: string; added: boolean } => {
+    const id = nodeId(item);
+    if (nodes.has(id)) {
+      return { id, added: false };
+    }
+    nodes.set(id, { id, item, depth });
+    return { id, added: true };
+  };
+
+  // With direction 'both' the same call is found from the caller and from the callee
+  const addEdge = (from: string, to: string, fromRanges: Range[]): void => {
+    const key = `${from}->${to}`;
+    const edge = edges.get(key) ?? { from, to, fromRanges: [] };
+    edges.set(key, edge);
+    for (const range of fromRanges) {
+      if (!edge.fromRanges.some((existing) => sameRange(existing, range))) {
+        edge.fromRanges.push(range);
+      }
+    }
+  };
+
+  const entries = (await client.prepareCallHierarchy(uri, line, character)) ?? [];
+  const roots = entries.map((item) => addNode(item, 0).id);
+
+  // Each node keeps being expanded in the direction it was found in, so with
+  // 'both' the callers' other callees and the callees' other callers stay out
+  let frontier = entries.map((item) => ({ item, direction }));
+  for (let depth = 1; depth <= maxDepth && frontier.length > 0; depth++) {
+    const next: { item: CallHierarchyItem; direction: CallGraphDirection }[] = [];
+
+    for (const { item, direction: itemDirection } of frontier) {
+      const id = nodeId(item);
+
+      if (itemDirection === 'incoming' || itemDirection === 'both') {
+        for (const call of (await client.getIncomingCalls(item)) ?? []) {
+          const caller = addNode(call.from, depth);
+          addEdge(caller.id, id, call.fromRanges);
+          if (caller.added) next.push({ item: call.from, direction: 'incoming' });
+        }
+      }
+
+      if (itemDirection === 'outgoing' || itemDirection === 'both') {
+        for (const call of (await client.getOutgoingCalls(item)) ?? []) {
+          const callee = addNode(call.to, depth);
+          addEdge(id, callee.id, call.fromRanges);
+          if (callee.added) next.push({ item: call.to, direction: 'outgoing' });
+        }
+      }
+    }
+
+    frontier = next;
+  }
+
+  return {
+    roots,
+    nodes: [...nodes.values()],
+    edges: [...edges.values()],
+  };
+}
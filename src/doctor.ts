@@ -0,0 +1,161 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { LanguageDefinition, LanguageRegistry, ServerRequirement } from './language-registry';
+
+const execFileAsync = promisify(execFile);
+
+// Long enough for a poetry or JVM start-up; servers that ignore the version flag are killed after it
+const COMMAND_TIMEOUT = 10000;
+
+export interface RequirementCheck extends ServerRequirement {
+  /** Whether the requirement is met */
+  found: boolean;
+  /** Resolved path of the executable or JAR, or the poetry environment */
+  path?: string;
+  /** First line printed by the version command */
+  version?: string;
+  /** Why the requirement is not met */
+  error?: string;
+}
+
+export interface LanguageReport {
+  id: string;
+  name: string;
+  /** Whether every requirement is met. Languages that declare no requirements are always ready. */
+  ready: boolean;
+  /** Server version, from the first requirement that reports one */
+  version?: string;
+  installHint?: string;
+  checks: RequirementCheck[];
+}
+
+function isExecutableFile(file: string): boolean {
+  try {
+    fs.accessSync(file, fs.constants.X_OK);
+    return fs.statSync(file).isFile();
+  } catch {
+    return false;
+  }
+}
+
+function hasPathSeparator(command: string): boolean {
+  return command.includes('/') || command.includes(path.sep);
+}
+
+/**
+ * Resolve a command the way spawn would: a path is checked as is, a bare
+ * name is looked up on PATH. Returns undefined when nothing executable is found.
+ */
+export function findExecutable(command: string): string | undefined {
+  if (hasPathSeparator(command)) {
+    const resolved = path.resolve(command);
+    return isExecutableFile(resolved) ? resolved : undefined;
+  }
+
+  const extensions = process.platform === 'win32'
+    ? ['', ...(process.env.PATHEXT ?? '.EXE;.CMD;.BAT').split(';')]
+    : [''];
+  const dirs = (process.env.PATH ?? '').split(path.delimiter).filter(Boolean);
+  for (const dir of dirs) {
+    for (const extension of extensions) {
+      const candidate = path.join(dir, command + extension);
+      if (isExecutableFile(candidate)) {
+        return candidate;
+      }
+    }
+  }
+  return undefined;
+}
+
+async function runCommand(command: string, args: string[], cwd?: string): Promise<string | undefined> {
+  try {
+    const { stdout, stderr } = await execFileAsync(command, args, { cwd, timeout: COMMAND_TIMEOUT, windowsHide: true });
+    const firstLine = (output: string) => output.split('\n').map((line) => line.trim()).find(Boolean);
+    // Some tools, such as java -version, print to stderr
+    return firstLine(stdout) ?? firstLine(stderr);
+  } catch {
+    return undefined;
+  }
+}
+
+async function checkPoetry(requirement: ServerRequirement & { target: string }): Promise<RequirementCheck> {
+  const { target, versionArgs } = requirement;
+  if (!fs.existsSync(target) || !fs.statSync(target).isDirectory()) {
+    return { ...requirement, found: false, error: `Server directory not found: ${target}` };
+  }
+
+  const poetry = findExecutable('poetry');
+  if (!poetry) {
+    return { ...requirement, found: false, error: 'poetry not found on PATH' };
+  }
+
+  const environment = await runCommand(poetry, ['env', 'info', '--path'], target);
+  if (!environment) {
+    return { ...requirement, found: false, error: `No poetry environment in ${target}. Run: cd ${target} && poetry install` };
+  }
+
+  const version = versionArgs && await runCommand(poetry, ['run', ...versionArgs], target);
+  return { ...requirement, found: true, path: environment, version };
+}
+
+async function checkRequirement(requirement: ServerRequirement): Promise<RequirementCheck> {
+  const { kind, target, option, versionArgs } = requirement;
+  if (!target) {
+    return { ...requirement, found: false, error: `Set the ${option} option` };
+  }
+
+  switch (kind) {
+    case 'executable': {
+      const resolved = findExecutable(target);
+      if (!resolved) {
+        const where = hasPathSeparator(target) ? '' : ' on PATH';
+        return { ...requirement, found: false, error: `${target} not found${where}` };
+      }
+      const version = versionArgs && await runCommand(resolved, versionArgs);
+      return { ...requirement, found: true, path: resolved, version };
+    }
+    case 'jar':
+      return fs.existsSync(target) && fs.statSync(target).isFile()
+        ? { ...requirement, found: true, path: path.resolve(target) }
+        : { ...requirement, found: false, error: `Server JAR not found: ${target}` };
+    case 'directory':
+      return fs.existsSync(target) && fs.statSync(target).isDirectory()
+        ? { ...requirement, found: true, path: path.resolve(target) }
+        : { ...requirement, found: false, error: `Directory not found: ${target}` };
+    case 'poetry':
+      return checkPoetry({ ...requirement, target });
+  }
+}
+
+/**
+ * Check whether a language server could start with the given factory options,
+ * without starting it.
+ */
+export async function checkLanguage(
+  language: LanguageDefinition,
+  options: Record<string, unknown> = {}
+): Promise<LanguageReport> {
+  const requirements = language.requirements?.(options) ?? [];
+  const checks = await Promise.all(requirements.map(checkRequirement));
+  return {
+    id: language.id,
+    name: language.name,
+    ready: checks.every((check) => check.found),
+    version: checks.find((check) => check.version)?.version,
+    installHint: language.installHint,
+    checks,
+  };
+}
+
+/**
+ * Check every registered language. languageOptions holds the factory options
+ * per language id, e.g. `{ cobol: { serverJar: '/opt/cobol-ls.jar' } }`.
+ */
+export function doctor(
+  registry: LanguageRegistry,
+  languageOptions: Record<string, Record<string, unknown>> = {}
+): Promise<LanguageReport[]> {
+  return Promise.all(registry.list().map((language) => checkLanguage(language, languageOptions[language.id])));
+}
@@ -0,0 +1,259 @@
+import * as fs from 'fs';
+import {
+  WorkspaceEdit,
+  ApplyWorkspaceEditResult,
+  TextEdit,
+  TextDocumentEdit,
+  CreateFile,
+  RenameFile,
+  DeleteFile,
+} from 'vscode-languageserver-protocol';
+import { LSPClient } from './lsp-client';
+import { uriToPath, applyTextEdits, checkDocumentVersion } from './workspace-edit';
+
+function directoryPrefix(uri: string): string {
+  return uri.endsWith('/') ? uri : `${uri}/`;
+}
+
+/** URIs of the files under a directory on disk, recursively */
+function listDiskFiles(dirUri: string): string[] {
+  const dirPath = uriToPath(dirUri);
+  if (!fs.existsSync(dirPath) || !fs.statSync(dirPath).isDirectory()) {
+    return [];
+  }
+  return fs.readdirSync(dirPath, { withFileTypes: true }).flatMap((entry) => {
+    const uri = directoryPrefix(dirUri) + encodeURIComponent(entry.name);
+    return entry.isDirectory() ? listDiskFiles(uri) : [uri];
+  });
+}
+
+/**
+ * Applies the edits a server requests with workspace/applyEdit, e.g. while
+ * executing a command such as organize imports.
+ */
+export interface WorkspaceEditApplier {
+  apply(edit: WorkspaceEdit, client: LSPClient, label?: string): Promise<ApplyWorkspaceEditResult>;
+}
+
+/**
+ * Writes edits to the files on disk and keeps open documents in sync
+ * (see LSPClient.applyWorkspaceEdit). This is the default applier.
+ */
+export class DiskEditApplier implements WorkspaceEditApplier {
+  async apply(edit: WorkspaceEdit, client: LSPClient): Promise<ApplyWorkspaceEditResult> {
+    await client.applyWorkspaceEdit(edit);
+    return { applied: true };
+  }
+}
+
+/**
+ * Applies edits without touching the disk. Open documents are updated and
+ * synced with the server; other files are read from disk once and then kept
+ * in memory, where getText() returns their edited contents.
+ */
+export class InMemoryEditApplier implements WorkspaceEditApplier {
+  private files: Map<string, string | null> = new Map();
+  // Prefixes of directories deleted or renamed in memory; their files on disk are hidden
+  private removedDirectories: Set<string> = new Set();
+
+  /**
+   * The current text of a file as seen by this applier, or undefined if it
+   * does not exist.
+   */
+  getText(uri: string, client?: LSPClient): string | undefined {
+    const doc = client?.getOpenDocument(uri);
+    if (doc) {
+      return doc.text;
+    }
+    if (this.files.has(uri)) {
+      return this.files.get(uri) ?? undefined;
+    }
+    if (this.isRemoved(uri)) {
+      return undefined;
+    }
+
+    const filePath = uriToPath(uri);
+    return fs.existsSync(filePath) && fs.statSync(filePath).isFile()
+      ? fs.readFileSync(filePath, 'utf-8')
+      : undefined;
+  }
+
+  /** URIs of the files, other than open documents, changed, created or deleted in memory */
+  getChangedUris(): string[] {
+    return [...this.files.keys()];
+  }
+
+  async apply(edit: WorkspaceEdit, client: LSPClient): Promise<ApplyWorkspaceEditResult> {
+    // documentChanges takes precedence over changes when both are present
+    if (edit.documentChanges) {
+      for (const change of edit.documentChanges) {
+        if (TextDocumentEdit.is(change)) {
+          checkDocumentVersion(change.textDocument, client.getOpenDocument(change.textDocument.uri)?.version);
+          await this.applyTextEdits(change.textDocument.uri, change.edits, client);
+        } else if (CreateFile.is(change)) {
+          this.createFile(change, client);
+        } else if (RenameFile.is(change)) {
+          await this.renameFile(change, client);
+        } else if (DeleteFile.is(change)) {
+          await this.deleteFile(change, client);
+        }
+      }
+    } else if (edit.changes) {
+      for (const [uri, edits] of Object.entries(edit.changes)) {
+        await this.applyTextEdits(uri, edits, client);
+      }
+    }
+
+    return { applied: true };
+  }
+
+  private exists(uri: string, client: LSPClient): boolean {
+    if (client.getOpenDocument(uri)) {
+      return true;
+    }
+    if (this.files.has(uri)) {
+      return this.files.get(uri) !== null;
+    }
+    return (!this.isRemoved(uri) && fs.existsSync(uriToPath(uri))) || this.filesUnder(uri, client).length > 0;
+  }
+
+  private isRemoved(uri: string): boolean {
+    return [...this.removedDirectories].some((prefix) => uri.startsWith(prefix));
+  }
+
+  private isDirectory(uri: string, client: LSPClient): boolean {
+    if (client.getOpenDocument(uri) || this.files.get(uri)) {
+      return false;
+    }
+    const filePath = uriToPath(uri);
+    return (!this.isRemoved(uri) && fs.existsSync(filePath) && fs.statSync(filePath).isDirectory())
+      || this.filesUnder(uri, client).length > 0;
+  }
+
+  /** URIs of the files under a directory, on disk, in memory and open */
+  private filesUnder(dirUri: string, client: LSPClient): string[] {
+    const prefix = directoryPrefix(dirUri);
+    const uris = new Set(listDiskFiles(dirUri).filter((uri) => !this.isRemoved(uri)));
+    for (const [uri, text] of this.files) {
+      if (uri.startsWith(prefix)) {
+        if (text === null) {
+          uris.delete(uri);
+        } else {
+          uris.add(uri);
+        }
+      }
+    }
+    for (const doc of client.getOpenDocuments()) {
+      if (doc.uri.startsWith(prefix)) {
+        uris.add(doc.uri);
+      }
+    }
+    return [...uris];
+  }
+
+  private async applyTextEdits(uri: string, edits: TextEdit[], client: LSPClient): Promise<void> {
+    if (client.getOpenDocument(uri)) {
+      await client.applyEdits(uri, edits);
+      return;
+    }
+
+    const text = this.getText(uri);
+    if (text === undefined) {
+      throw new Error(`File not found: ${uri}`);
+    }
+    this.files.set(uri, applyTextEdits(text, edits));
+  }
+
+  private createFile(change: CreateFile, client: LSPClient): void {
+    if (this.exists(change.uri, client)) {
+      if (change.options?.ignoreIfExists && !change.options.overwrite) {
+        return;
+      }
+      if (!change.options?.overwrite) {
+        throw new Error(`File already exists: ${change.uri}`);
+      }
+    }
+    this.files.set(change.uri, '');
+  }
+
+  private async renameFile(change: RenameFile, client: LSPClient): Promise<void> {
+    if (this.exists(change.newUri, client)) {
+      if (change.options?.ignoreIfExists && !change.options.overwrite) {
+        return;
+      }
+      if (!change.options?.overwrite) {
+        throw new Error(`File already exists: ${change.newUri}`);
+      }
+    }
+
+    // Renaming a directory moves every file under it
+    if (this.isDirectory(change.oldUri, client)) {
+      for (const uri of this.filesUnder(change.oldUri, client)) {
+        await this.moveFile(uri, change.newUri + uri.slice(change.oldUri.length), client);
+      }
+      this.removedDirectories.add(directoryPrefix(change.oldUri));
+      this.files.set(change.oldUri, null);
+      return;
+    }
+
+    await this.moveFile(change.oldUri, change.newUri, client);
+  }
+
+  private async moveFile(oldUri: string, newUri: string, client: LSPClient): Promise<void> {
+    const text = this.getText(oldUri, client);
+    if (text === undefined) {
+      throw new Error(`File not found: ${oldUri}`);
+    }
+
+    const doc = client.getOpenDocument(oldUri);
+    if (doc) {
+      await client.closeDocument(oldUri);
+      await client.openDocument(newUri, doc.languageId, text);
+    }
+    this.files.set(oldUri, null);
+    this.files.set(newUri, text);
+  }
+
+  private async deleteFile(change: DeleteFile, client: LSPClient): Promise<void> {
+    if (!this.exists(change.uri, client) && !change.options?.ignoreIfNotExists) {
+      throw new Error(`File not found: ${change.uri}`);
+    }
+
+    if (this.isDirectory(change.uri, client)) {
+      const uris = this.filesUnder(change.uri, client);
+      if (uris.length > 0 && !change.options?.recursive) {
+        throw new Error(`Directory not empty: ${change.uri}`);
+      }
+      for (const uri of uris) {
+        await this.removeFile(uri, client);
+      }
+      this.removedDirectories.add(directoryPrefix(change.uri));
+    }
+    await this.removeFile(change.uri, client);
+  }
+
+  private async removeFile(uri: string, client: LSPClient): Promise<void> {
+    if (client.getOpenDocument(uri)) {
+      await client.closeDocument(uri);
+    }
+    this.files.set(uri, null);
+  }
+}
+
+export interface RecordedWorkspaceEdit {
+  edit: WorkspaceEdit;
+  label?: string;
+}
+
+/**
+ * Records the requested edits without applying them, reporting them as
+ * applied so the server finishes the command.
+ */
+export class DryRunEditApplier implements WorkspaceEditApplier {
+  readonly edits: RecordedWorkspaceEdit[] = [];
+
+  async apply(edit: WorkspaceEdit, _client: LSPClient, label?: string): Promise<ApplyWorkspaceEditResult> {
+    this.edits.push({ edit, label });
+    return { applied: true };
+  }
+}
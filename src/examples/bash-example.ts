@@ -1,4 +1,5 @@
 import { createBashLspClient } from '../lsp-server/bash-lsp-server';
+import { NormalizedLSPClient } from '../normalized-client';
 import { Logger } from 'vscode-languageserver-protocol';
 import * as path from 'path';
 import * as fs from 'fs';
@@ -57,13 +58,15 @@ async function main() {
     await client.openDocument(fileUri, 'shellscript', sampleBashScript);
     console.log('Opened document\n');
 
+    const normalized = new NormalizedLSPClient(client);
+
     await new Promise((resolve) => setTimeout(resolve, 1000));
 
     // Get document symbols
     console.log('=== Document Symbols ===');
-    const symbols = await client.getDocumentSymbols(fileUri);
-    if (symbols && symbols.length > 0) {
-      symbols.forEach((sym: any) => {
+    const symbols = await normalized.getDocumentSymbols(fileUri);
+    if (symbols.length > 0) {
+      symbols.forEach((sym) => {
         console.log(`  - ${sym.name} (${sym.kind})`);
       });
     } else {
@@ -81,14 +84,11 @@ async function main() {
 
     // Get completions
     console.log('\n=== Completions ===');
-    const completions = await client.getCompletion(fileUri, 14, 2);
-    if (completions) {
-      const items = Array.isArray(completions) ? completions : completions.items;
-      console.log(`  Found ${items?.length || 0} completions`);
-      items?.slice(0, 5).forEach((item: any) => {
-        console.log(`    - ${item.label}`);
-      });
-    }
+    const completions = await normalized.getCompletion(fileUri, 14, 2);
+    console.log(`  Found ${completions.length} completions`);
+    completions.slice(0, 5).forEach((item) => {
+      console.log(`    - ${item.label}`);
+    });
 
     await client.closeDocument(fileUri);
     await client.stop();
@@ -1,4 +1,5 @@
 import { createClojureLspClient } from '../lsp-server/clojure-lsp-server';
+import { NormalizedLSPClient } from '../normalized-client';
 import { Logger } from 'vscode-languageserver-protocol';
 import * as path from 'path';
 import * as fs from 'fs';
@@ -53,14 +54,16 @@ async function main() {
     await client.openDocument(fileUri, 'clojure', sampleClojureCode);
     console.log('Opened document\n');
 
+    const normalized = new NormalizedLSPClient(client);
+
     // Clojure LSP needs more time to analyze
     await new Promise((resolve) => setTimeout(resolve, 3000));
 
     // Get document symbols
     console.log('=== Document Symbols ===');
-    const symbols = await client.getDocumentSymbols(fileUri);
-    if (symbols && symbols.length > 0) {
-      symbols.forEach((sym: any) => {
+    const symbols = await normalized.getDocumentSymbols(fileUri);
+    if (symbols.length > 0) {
+      symbols.forEach((sym) => {
         console.log(`  - ${sym.name} (${sym.kind})`);
       });
     } else {
@@ -78,13 +81,10 @@ async function main() {
 
     // Get definition
     console.log('\n=== Definition (greet call on line 14) ===');
-    const definition = await client.getDefinition(fileUri, 13, 12);
-    if (definition) {
-      const defs = Array.isArray(definition) ? definition : [definition];
-      defs.forEach((def: any) => {
-        if (def.uri) {
-          console.log(`  Defined at line ${def.range?.start?.line + 1 || '?'}`);
-        }
+    const definitions = await normalized.getDefinition(fileUri, 13, 12);
+    if (definitions.length > 0) {
+      definitions.forEach((def) => {
+        console.log(`  Defined at line ${def.range.start.line + 1}`);
       });
     } else {
       console.log('  No definition found');
@@ -92,9 +92,9 @@ async function main() {
 
     // Get references
     console.log('\n=== References (greet function) ===');
-    const references = await client.getReferences(fileUri, 3, 6, true);
-    if (references && references.length > 0) {
-      references.forEach((ref: any) => {
+    const references = await normalized.getReferences(fileUri, 3, 6, true);
+    if (references.length > 0) {
+      references.forEach((ref) => {
         console.log(`  - Line ${ref.range.start.line + 1}`);
       });
     } else {
@@ -1,4 +1,5 @@
 import { createCsharpLspClient, findCsharpFiles } from '../lsp-server/csharp-lsp-server';
+import { NormalizedLSPClient, SymbolNode } from '../normalized-client';
 import { Logger, SymbolKind } from 'vscode-languageserver-protocol';
 import * as path from 'path';
 import * as fs from 'fs';
@@ -101,27 +102,26 @@ async function main() {
     await client.openDocument(fileUri, 'csharp', fileContent);
     console.log('\nOpened document:', randomFile);
 
+    const normalized = new NormalizedLSPClient(client);
+
     // Wait for the server to analyze the file (C# solution loading can take a while)
     console.log('Waiting for server to analyze the solution (this may take a moment)...');
     await new Promise((resolve) => setTimeout(resolve, 10000));
 
     // Get document symbols
     console.log('\n=== Document Symbols ===\n');
-    const symbols = await client.getDocumentSymbols(fileUri);
+    const symbols = await normalized.getDocumentSymbols(fileUri);
 
-    if (symbols && symbols.length > 0) {
-      const printSymbol = (sym: any, indent: number = 0): void => {
+    if (symbols.length > 0) {
+      const printSymbol = (sym: SymbolNode, indent: number = 0): void => {
         const prefix = '  '.repeat(indent);
         const kind = symbolKindName(sym.kind);
-        const range = sym.range || sym.location?.range;
-        const line = range ? `(line ${range.start.line + 1})` : '';
+        const line = `(line ${sym.range.start.line + 1})`;
 
         console.log(`${prefix}- [${kind}] ${sym.name} ${line}`);
 
-        if (sym.children) {
-          for (const child of sym.children) {
-            printSymbol(child, indent + 1);
-          }
+        for (const child of sym.children) {
+          printSymbol(child, indent + 1);
         }
       };
 
@@ -197,18 +197,15 @@ async function main() {
 
     if (completionLine >= 0) {
       console.log(`Completions at line ${completionLine + 1}, col ${completionCol}:`);
-      const completions = await client.getCompletion(fileUri, completionLine, completionCol);
-      if (completions) {
-        const items = Array.isArray(completions) ? completions : completions.items;
-        if (items && items.length > 0) {
-          console.log('First 10 completions:');
-          items.slice(0, 10).forEach((item) => {
-            const detail = item.detail ? ` - ${item.detail}` : '';
-            console.log(`  - ${item.label}${detail}`);
-          });
-        } else {
-          console.log('  No completions available');
-        }
+      const items = await normalized.getCompletion(fileUri, completionLine, completionCol);
+      if (items.length > 0) {
+        console.log('First 10 completions:');
+        items.slice(0, 10).forEach((item) => {
+          const detail = item.detail ? ` - ${item.detail}` : '';
+          console.log(`  - ${item.label}${detail}`);
+        });
+      } else {
+        console.log('  No completions available');
       }
     } else {
       console.log('No suitable location found for completions');
@@ -218,15 +215,10 @@ async function main() {
     console.log('\n=== Definition ===\n');
     if (methodLine >= 0) {
       console.log(`Definition lookup at line ${methodLine + 1}, col ${methodCol}:`);
-      const definition = await client.getDefinition(fileUri, methodLine, methodCol);
-      if (definition) {
-        const defs = Array.isArray(definition) ? definition : [definition];
-        for (const def of defs) {
-          if ('range' in def) {
-            console.log(`  Defined at line ${def.range.start.line + 1}, col ${def.range.start.character}`);
-          } else if ('targetRange' in def) {
-            console.log(`  Defined at line ${def.targetRange.start.line + 1}, col ${def.targetRange.start.character}`);
-          }
+      const definitions = await normalized.getDefinition(fileUri, methodLine, methodCol);
+      if (definitions.length > 0) {
+        for (const def of definitions) {
+          console.log(`  Defined at line ${def.range.start.line + 1}, col ${def.range.start.character}`);
         }
       } else {
         console.log('  No definition found');
@@ -237,11 +229,10 @@ async function main() {
     console.log('\n=== References ===\n');
     if (classLine >= 0) {
       console.log(`References for class at line ${classLine + 1}:`);
-      const references = await client.getReferences(fileUri, classLine, classCol, true);
-      if (references && references.length > 0) {
+      const references = await normalized.getReferences(fileUri, classLine, classCol, true);
+      if (references.length > 0) {
         for (const ref of references.slice(0, 10)) {
-          const refFile = ref.uri.replace('file://', '');
-          console.log(`  - ${path.basename(refFile)}: Line ${ref.range.start.line + 1}, col ${ref.range.start.character}`);
+          console.log(`  - ${path.basename(ref.filePath)}: Line ${ref.range.start.line + 1}, col ${ref.range.start.character}`);
         }
         if (references.length > 10) {
           console.log(`  ... and ${references.length - 10} more`);
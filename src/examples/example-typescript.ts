@@ -1,4 +1,5 @@
 import { createTypescriptLspClient } from '../lsp-server/typescript-lsp-server';
+import { NormalizedLSPClient } from '../normalized-client';
 import { Logger } from 'vscode-languageserver-protocol';
 import * as path from 'path';
 import * as fs from 'fs';
@@ -52,6 +53,8 @@ console.log(greeting);
     await client.openDocument(fileUri, 'typescript', testContent);
     console.log('\nOpened document:', fileUri);
 
+    const normalized = new NormalizedLSPClient(client);
+
     // Wait a moment for diagnostics
     await new Promise((resolve) => setTimeout(resolve, 1000));
 
@@ -62,18 +65,17 @@ console.log(greeting);
     }
 
     // Get completions
-    const completions = await client.getCompletion(fileUri, 3, 8); // after 'console.'
-    if (completions) {
-      const items = Array.isArray(completions) ? completions : completions.items;
+    const completions = await normalized.getCompletion(fileUri, 3, 8); // after 'console.'
+    if (completions.length > 0) {
       console.log('\nCompletions (first 5):');
-      items.slice(0, 5).forEach((item) => {
+      completions.slice(0, 5).forEach((item) => {
         console.log(`  - ${item.label}`);
       });
     }
 
     // Get document symbols
-    const symbols = await client.getDocumentSymbols(fileUri);
-    if (symbols && symbols.length > 0) {
+    const symbols = await normalized.getDocumentSymbols(fileUri);
+    if (symbols.length > 0) {
       console.log('\nDocument symbols:');
       for (const sym of symbols) {
         console.log(`  - ${JSON.stringify(sym)}`);
@@ -1,4 +1,5 @@
 import { createGoLspClient } from '../lsp-server/go-lsp-server';
+import { NormalizedLSPClient } from '../normalized-client';
 import { Logger } from 'vscode-languageserver-protocol';
 import * as path from 'path';
 import * as fs from 'fs';
@@ -60,13 +61,15 @@ async function main() {
     await client.openDocument(fileUri, 'go', sampleGoCode);
     console.log('Opened document\n');
 
+    const normalized = new NormalizedLSPClient(client);
+
     await new Promise((resolve) => setTimeout(resolve, 2000));
 
     // Get document symbols
     console.log('=== Document Symbols ===');
-    const symbols = await client.getDocumentSymbols(fileUri);
-    if (symbols && symbols.length > 0) {
-      symbols.forEach((sym: any) => {
+    const symbols = await normalized.getDocumentSymbols(fileUri);
+    if (symbols.length > 0) {
+      symbols.forEach((sym) => {
         console.log(`  - ${sym.name} (${sym.kind})`);
       });
     } else {
@@ -84,24 +87,18 @@ async function main() {
 
     // Get completions
     console.log('\n=== Completions (after fmt.) ===');
-    const completions = await client.getCompletion(fileUri, 12, 5);
-    if (completions) {
-      const items = Array.isArray(completions) ? completions : completions.items;
-      console.log(`  Found ${items?.length || 0} completions`);
-      items?.slice(0, 5).forEach((item: any) => {
-        console.log(`    - ${item.label}`);
-      });
-    }
+    const completions = await normalized.getCompletion(fileUri, 12, 5);
+    console.log(`  Found ${completions.length} completions`);
+    completions.slice(0, 5).forEach((item) => {
+      console.log(`    - ${item.label}`);
+    });
 
     // Get definition
     console.log('\n=== Definition (greet call on line 13) ===');
-    const definition = await client.getDefinition(fileUri, 12, 14);
-    if (definition) {
-      const defs = Array.isArray(definition) ? definition : [definition];
-      defs.forEach((def: any) => {
-        if (def.uri) {
-          console.log(`  Defined at line ${def.range?.start?.line + 1 || '?'}`);
-        }
+    const definitions = await normalized.getDefinition(fileUri, 12, 14);
+    if (definitions.length > 0) {
+      definitions.forEach((def) => {
+        console.log(`  Defined in ${path.basename(def.filePath)} at line ${def.range.start.line + 1}`);
       });
     } else {
       console.log('  No definition found');
@@ -109,9 +106,9 @@ async function main() {
 
     // Get references
     console.log('\n=== References (greet function) ===');
-    const references = await client.getReferences(fileUri, 5, 5, true);
-    if (references && references.length > 0) {
-      references.forEach((ref: any) => {
+    const references = await normalized.getReferences(fileUri, 5, 5, true);
+    if (references.length > 0) {
+      references.forEach((ref) => {
         console.log(`  - Line ${ref.range.start.line + 1}`);
       });
     } else {
@@ -1,4 +1,5 @@
 import { createHlasmLspClient } from '../lsp-server/hlasm-lsp-server';
+import { NormalizedLSPClient } from '../normalized-client';
 import { Logger } from 'vscode-languageserver-protocol';
 import * as path from 'path';
 import * as fs from 'fs';
@@ -46,13 +47,15 @@ async function main() {
     await client.openDocument(fileUri, 'hlasm', sampleHlasmProgram);
     console.log('Opened document\n');
 
+    const normalized = new NormalizedLSPClient(client);
+
     await new Promise((resolve) => setTimeout(resolve, 2000));
 
     // Get document symbols
     console.log('=== Document Symbols ===');
-    const symbols = await client.getDocumentSymbols(fileUri);
-    if (symbols && symbols.length > 0) {
-      symbols.forEach((sym: any) => {
+    const symbols = await normalized.getDocumentSymbols(fileUri);
+    if (symbols.length > 0) {
+      symbols.forEach((sym) => {
         console.log(`  - ${sym.name} (${sym.kind})`);
       });
     } else {
@@ -70,20 +73,19 @@ async function main() {
 
     // Get completions
     console.log('\n=== Completions ===');
-    const completions = await client.getCompletion(fileUri, 3, 10);
-    if (completions) {
-      const items = Array.isArray(completions) ? completions : completions.items;
-      console.log(`  Found ${items?.length || 0} completions`);
-      items?.slice(0, 5).forEach((item: any) => {
-        console.log(`    - ${item.label}`);
-      });
-    }
+    const completions = await normalized.getCompletion(fileUri, 3, 10);
+    console.log(`  Found ${completions.length} completions`);
+    completions.slice(0, 5).forEach((item) => {
+      console.log(`    - ${item.label}`);
+    });
 
     // Get definition
     console.log('\n=== Definition (HELLO label) ===');
-    const definition = await client.getDefinition(fileUri, 5, 15);
-    if (definition) {
-      console.log('  ', JSON.stringify(definition).slice(0, 200));
+    const definitions = await normalized.getDefinition(fileUri, 5, 15);
+    if (definitions.length > 0) {
+      definitions.forEach((def) => {
+        console.log(`  Defined in ${path.basename(def.filePath)} at line ${def.range.start.line + 1}`);
+      });
     } else {
       console.log('  No definition found');
     }
@@ -1,4 +1,5 @@
 import { createJavaLspClient } from '../lsp-server/java-lsp-server';
+import { NormalizedLSPClient, SymbolNode } from '../normalized-client';
 import { Logger, SymbolKind } from 'vscode-languageserver-protocol';
 import * as fs from 'fs';
 
@@ -73,29 +74,28 @@ async function main() {
     await client.openDocument(fileUri, 'java', fileContent);
     console.log('\nOpened document:', javaFile);
 
+    const normalized = new NormalizedLSPClient(client);
+
     // Wait for the server to process the file
     console.log('Waiting for server to analyze the file...');
     await new Promise((resolve) => setTimeout(resolve, 3000));
 
     // Get document symbols
     console.log('\n=== Document Symbols in FlowNodeServiceImpl.java ===\n');
-    const symbols = await client.getDocumentSymbols(fileUri);
+    const symbols = await normalized.getDocumentSymbols(fileUri);
 
-    if (symbols && symbols.length > 0) {
+    if (symbols.length > 0) {
       // Helper function to print symbols with indentation
-      function printSymbol(sym: any, indent: number = 0) {
+      function printSymbol(sym: SymbolNode, indent: number = 0) {
         const prefix = '  '.repeat(indent);
         const kind = symbolKindName(sym.kind);
-        const range = sym.range || sym.location?.range;
-        const line = range ? `(line ${range.start.line + 1})` : '';
+        const line = `(line ${sym.range.start.line + 1})`;
 
         console.log(`${prefix}- [${kind}] ${sym.name} ${line}`);
 
-        // If hierarchical symbols, print children
-        if (sym.children) {
-          for (const child of sym.children) {
-            printSymbol(child, indent + 1);
-          }
+        // Print the nested symbols
+        for (const child of sym.children) {
+          printSymbol(child, indent + 1);
         }
       }
 
@@ -1,4 +1,5 @@
 import { createKotlinLspClient } from '../lsp-server/kotlin-lsp-server';
+import { NormalizedLSPClient } from '../normalized-client';
 import { Logger } from 'vscode-languageserver-protocol';
 import * as path from 'path';
 import * as fs from 'fs';
@@ -50,14 +51,16 @@ async function main() {
     await client.openDocument(fileUri, 'kotlin', sampleKotlinCode);
     console.log('Opened document\n');
 
+    const normalized = new NormalizedLSPClient(client);
+
     // Kotlin LSP needs time to analyze
     await new Promise((resolve) => setTimeout(resolve, 5000));
 
     // Get document symbols
     console.log('=== Document Symbols ===');
-    const symbols = await client.getDocumentSymbols(fileUri);
-    if (symbols && symbols.length > 0) {
-      symbols.forEach((sym: any) => {
+    const symbols = await normalized.getDocumentSymbols(fileUri);
+    if (symbols.length > 0) {
+      symbols.forEach((sym) => {
         console.log(`  - ${sym.name} (${sym.kind})`);
       });
     } else {
@@ -75,24 +78,18 @@ async function main() {
 
     // Get completions
     console.log('\n=== Completions ===');
-    const completions = await client.getCompletion(fileUri, 9, 12);
-    if (completions) {
-      const items = Array.isArray(completions) ? completions : completions.items;
-      console.log(`  Found ${items?.length || 0} completions`);
-      items?.slice(0, 5).forEach((item: any) => {
-        console.log(`    - ${item.label}`);
-      });
-    }
+    const completions = await normalized.getCompletion(fileUri, 9, 12);
+    console.log(`  Found ${completions.length} completions`);
+    completions.slice(0, 5).forEach((item) => {
+      console.log(`    - ${item.label}`);
+    });
 
     // Get definition
     console.log('\n=== Definition (greet call on line 10) ===');
-    const definition = await client.getDefinition(fileUri, 9, 12);
-    if (definition) {
-      const defs = Array.isArray(definition) ? definition : [definition];
-      defs.forEach((def: any) => {
-        if (def.uri) {
-          console.log(`  Defined at line ${def.range?.start?.line + 1 || '?'}`);
-        }
+    const definitions = await normalized.getDefinition(fileUri, 9, 12);
+    if (definitions.length > 0) {
+      definitions.forEach((def) => {
+        console.log(`  Defined at line ${def.range.start.line + 1}`);
       });
     } else {
       console.log('  No definition found');
@@ -100,9 +97,9 @@ async function main() {
 
     // Get references
     console.log('\n=== References (greet function) ===');
-    const references = await client.getReferences(fileUri, 2, 4, true);
-    if (references && references.length > 0) {
-      references.forEach((ref: any) => {
+    const references = await normalized.getReferences(fileUri, 2, 4, true);
+    if (references.length > 0) {
+      references.forEach((ref) => {
         console.log(`  - Line ${ref.range.start.line + 1}`);
       });
     } else {
@@ -1,4 +1,5 @@
 import { createPythonLspClient, findPythonFiles } from '../lsp-server/python-lsp-server';
+import { NormalizedLSPClient, SymbolNode } from '../normalized-client';
 import { Logger, SymbolKind } from 'vscode-languageserver-protocol';
 import * as path from 'path';
 import * as fs from 'fs';
@@ -74,6 +75,8 @@ async function main() {
     await client.openDocument(fileUri, 'python', fileContent);
     console.log('\nOpened document:', selectedFile);
 
+    const normalized = new NormalizedLSPClient(client);
+
     // Wait for analysis
     console.log('Waiting for server to analyze...');
     await new Promise((resolve) => setTimeout(resolve, 2000));
@@ -81,21 +84,16 @@ async function main() {
     // Get document symbols
     console.log('\n=== Document Symbols ===\n');
     try {
-      const symbols = await Promise.race([
-        client.getDocumentSymbols(fileUri),
-        new Promise<null>((_, reject) => setTimeout(() => reject(new Error('timeout')), 10000))
-      ]);
+      const symbols = await normalized.getDocumentSymbols(fileUri, { timeout: 10000 });
 
-      if (symbols && symbols.length > 0) {
-        const printSymbol = (sym: any, indent: number = 0): void => {
+      if (symbols.length > 0) {
+        const printSymbol = (sym: SymbolNode, indent: number = 0): void => {
           const prefix = '  '.repeat(indent);
           const kind = symbolKindName(sym.kind);
-          const line = sym.range ? `(line ${sym.range.start.line + 1})` : '';
+          const line = `(line ${sym.range.start.line + 1})`;
           console.log(`${prefix}- [${kind}] ${sym.name} ${line}`);
-          if (sym.children) {
-            for (const child of sym.children) {
-              printSymbol(child, indent + 1);
-            }
+          for (const child of sym.children) {
+            printSymbol(child, indent + 1);
           }
         };
         for (const sym of symbols) {
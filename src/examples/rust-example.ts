@@ -1,4 +1,5 @@
 import { createRustLspClient } from '../lsp-server/rust-lsp-server';
+import { NormalizedLSPClient, SymbolNode } from '../normalized-client';
 import { Logger, SymbolKind } from 'vscode-languageserver-protocol';
 import * as path from 'path';
 import * as fs from 'fs';
@@ -103,27 +104,26 @@ async function main() {
     await client.openDocument(fileUri, 'rust', fileContent);
     console.log('\nOpened document:', targetFile);
 
-    // Wait for rust-analyzer to analyze the file
+    const normalized = new NormalizedLSPClient(client);
+
+    // Wait for rust-analyzer to finish indexing the project
     console.log('Waiting for rust-analyzer to analyze the file...');
-    await new Promise((resolve) => setTimeout(resolve, 3000));
+    await client.waitUntilIdle({ timeout: 60000 });
 
     // Get document symbols
     console.log('\n=== Document Symbols ===\n');
-    const symbols = await client.getDocumentSymbols(fileUri);
+    const symbols = await normalized.getDocumentSymbols(fileUri);
 
-    if (symbols && symbols.length > 0) {
-      const printSymbol = (sym: any, indent: number = 0): void => {
+    if (symbols.length > 0) {
+      const printSymbol = (sym: SymbolNode, indent: number = 0): void => {
         const prefix = '  '.repeat(indent);
         const kind = symbolKindName(sym.kind);
-        const range = sym.range || sym.location?.range;
-        const line = range ? `(line ${range.start.line + 1})` : '';
+        const line = `(line ${sym.range.start.line + 1})`;
 
         console.log(`${prefix}- [${kind}] ${sym.name} ${line}`);
 
-        if (sym.children) {
-          for (const child of sym.children) {
-            printSymbol(child, indent + 1);
-          }
+        for (const child of sym.children) {
+          printSymbol(child, indent + 1);
         }
       };
 
@@ -209,18 +209,15 @@ async function main() {
 
     if (completionLine >= 0) {
       console.log(`Completions at line ${completionLine + 1}, col ${completionCol}:`);
-      const completions = await client.getCompletion(fileUri, completionLine, completionCol);
-      if (completions) {
-        const items = Array.isArray(completions) ? completions : completions.items;
-        if (items && items.length > 0) {
-          console.log('First 10 completions:');
-          items.slice(0, 10).forEach((item) => {
-            const detail = item.detail ? ` - ${item.detail}` : '';
-            console.log(`  - ${item.label}${detail}`);
-          });
-        } else {
-          console.log('  No completions available');
-        }
+      const items = await normalized.getCompletion(fileUri, completionLine, completionCol);
+      if (items.length > 0) {
+        console.log('First 10 completions:');
+        items.slice(0, 10).forEach((item) => {
+          const detail = item.detail ? ` - ${item.detail}` : '';
+          console.log(`  - ${item.label}${detail}`);
+        });
+      } else {
+        console.log('  No completions available');
       }
     } else {
       console.log('No suitable location found for completions');
@@ -230,17 +227,10 @@ async function main() {
     console.log('\n=== Definition ===\n');
     if (funcLine >= 0) {
       console.log(`Definition lookup at line ${funcLine + 1}, col ${funcCol}:`);
-      const definition = await client.getDefinition(fileUri, funcLine, funcCol);
-      if (definition) {
-        const defs = Array.isArray(definition) ? definition : [definition];
-        for (const def of defs) {
-          if ('uri' in def && 'range' in def) {
-            const defFile = def.uri.replace('file://', '');
-            console.log(`  Defined in ${path.basename(defFile)} at line ${def.range.start.line + 1}, col ${def.range.start.character}`);
-          } else if ('targetUri' in def) {
-            const defFile = def.targetUri.replace('file://', '');
-            console.log(`  Defined in ${path.basename(defFile)} at line ${def.targetRange.start.line + 1}, col ${def.targetRange.start.character}`);
-          }
+      const definitions = await normalized.getDefinition(fileUri, funcLine, funcCol);
+      if (definitions.length > 0) {
+        for (const def of definitions) {
+          console.log(`  Defined in ${path.basename(def.filePath)} at line ${def.range.start.line + 1}, col ${def.range.start.character}`);
         }
       } else {
         console.log('  No definition found');
@@ -251,11 +241,10 @@ async function main() {
     console.log('\n=== References ===\n');
     if (structLine >= 0) {
       console.log(`References for struct/enum at line ${structLine + 1}:`);
-      const references = await client.getReferences(fileUri, structLine, structCol, true);
-      if (references && references.length > 0) {
+      const references = await normalized.getReferences(fileUri, structLine, structCol, true);
+      if (references.length > 0) {
         for (const ref of references.slice(0, 10)) {
-          const refFile = ref.uri.replace('file://', '');
-          console.log(`  - ${path.basename(refFile)}: Line ${ref.range.start.line + 1}, col ${ref.range.start.character}`);
+          console.log(`  - ${path.basename(ref.filePath)}: Line ${ref.range.start.line + 1}, col ${ref.range.start.character}`);
         }
         if (references.length > 10) {
           console.log(`  ... and ${references.length - 10} more`);
@@ -1,4 +1,5 @@
 import { createTerraformLspClient } from '../lsp-server/terraform-lsp-server';
+import { NormalizedLSPClient } from '../normalized-client';
 import { Logger } from 'vscode-languageserver-protocol';
 import * as path from 'path';
 import * as fs from 'fs';
@@ -68,13 +69,15 @@ async function main() {
     await client.openDocument(fileUri, 'terraform', sampleTerraformCode);
     console.log('Opened document\n');
 
+    const normalized = new NormalizedLSPClient(client);
+
     await new Promise((resolve) => setTimeout(resolve, 2000));
 
     // Get document symbols
     console.log('=== Document Symbols ===');
-    const symbols = await client.getDocumentSymbols(fileUri);
-    if (symbols && symbols.length > 0) {
-      symbols.forEach((sym: any) => {
+    const symbols = await normalized.getDocumentSymbols(fileUri);
+    if (symbols.length > 0) {
+      symbols.forEach((sym) => {
         console.log(`  - ${sym.name} (${sym.kind})`);
       });
     } else {
@@ -92,25 +95,18 @@ async function main() {
 
     // Get completions
     console.log('\n=== Completions (inside resource block) ===');
-    const completions = await client.getCompletion(fileUri, 19, 2);
-    if (completions) {
-      const items = Array.isArray(completions) ? completions : completions.items;
-      console.log(`  Found ${items?.length || 0} completions`);
-      items?.slice(0, 5).forEach((item: any) => {
-        console.log(`    - ${item.label}`);
-      });
-    }
+    const completions = await normalized.getCompletion(fileUri, 19, 2);
+    console.log(`  Found ${completions.length} completions`);
+    completions.slice(0, 5).forEach((item) => {
+      console.log(`    - ${item.label}`);
+    });
 
     // Get definition for variable reference
     console.log('\n=== Definition (var.instance_type on line 20) ===');
-    const definition = await client.getDefinition(fileUri, 19, 20);
-    if (definition) {
-      const defs = Array.isArray(definition) ? definition : [definition];
-      defs.forEach((def: any) => {
-        if (def.uri || def.targetUri) {
-          const range = def.range || def.targetRange;
-          console.log(`  Defined at line ${range?.start?.line + 1 || '?'}`);
-        }
+    const definitions = await normalized.getDefinition(fileUri, 19, 20);
+    if (definitions.length > 0) {
+      definitions.forEach((def) => {
+        console.log(`  Defined at line ${def.range.start.line + 1}`);
       });
     } else {
       console.log('  No definition found');
@@ -118,9 +114,9 @@ async function main() {
 
     // Get references for variable
     console.log('\n=== References (instance_type variable) ===');
-    const references = await client.getReferences(fileUri, 5, 10, true);
-    if (references && references.length > 0) {
-      references.forEach((ref: any) => {
+    const references = await normalized.getReferences(fileUri, 5, 10, true);
+    if (references.length > 0) {
+      references.forEach((ref) => {
         console.log(`  - Line ${ref.range.start.line + 1}`);
       });
     } else {
@@ -1,4 +1,5 @@
 import { createVaxPascalLspClient } from '../lsp-server/vax-pascal-lsp-server';
+import { NormalizedLSPClient } from '../normalized-client';
 import { Logger } from 'vscode-languageserver-protocol';
 import * as path from 'path';
 import * as fs from 'fs';
@@ -77,13 +78,15 @@ async function main() {
     await client.openDocument(fileUri, 'pascal', sampleVaxPascalProgram);
     console.log('Opened document\n');
 
+    const normalized = new NormalizedLSPClient(client);
+
     await new Promise((resolve) => setTimeout(resolve, 2000));
 
     // Get document symbols
     console.log('=== Document Symbols ===');
-    const symbols = await client.getDocumentSymbols(fileUri);
-    if (symbols && symbols.length > 0) {
-      symbols.forEach((sym: any) => {
+    const symbols = await normalized.getDocumentSymbols(fileUri);
+    if (symbols.length > 0) {
+      symbols.forEach((sym) => {
         console.log(`  - ${sym.name} (${sym.kind})`);
       });
     } else {
@@ -101,20 +104,19 @@ async function main() {
 
     // Get completions
     console.log('\n=== Completions ===');
-    const completions = await client.getCompletion(fileUri, 33, 5);
-    if (completions) {
-      const items = Array.isArray(completions) ? completions : completions.items;
-      console.log(`  Found ${items?.length || 0} completions`);
-      items?.slice(0, 5).forEach((item: any) => {
-        console.log(`    - ${item.label}`);
-      });
-    }
+    const completions = await normalized.getCompletion(fileUri, 33, 5);
+    console.log(`  Found ${completions.length} completions`);
+    completions.slice(0, 5).forEach((item) => {
+      console.log(`    - ${item.label}`);
+    });
 
     // Get definition
     console.log('\n=== Definition (Compute call) ===');
-    const definition = await client.getDefinition(fileUri, 35, 14);
-    if (definition) {
-      console.log('  ', JSON.stringify(definition).slice(0, 200));
+    const definitions = await normalized.getDefinition(fileUri, 35, 14);
+    if (definitions.length > 0) {
+      definitions.forEach((def) => {
+        console.log(`  Defined in ${path.basename(def.filePath)} at line ${def.range.start.line + 1}`);
+      });
     } else {
       console.log('  No definition found');
     }
@@ -1,4 +1,89 @@
-export { LSPClient, LSPClientOptions, DocumentInfo } from './lsp-client';
+export {
+  LSPClient,
+  LSPClientOptions,
+  DocumentInfo,
+  RequestOptions,
+  SocketOptions,
+  PipeOptions,
+  AttachOptions,
+  RestartOptions,
+  LifecycleEvent,
+  LSPClientEvents,
+  LSPClientEventName,
+  LSPClientEventHandler,
+  ShowMessageRequestHandler,
+  ShowDocumentHandler,
+  ProgressInfo,
+  WaitUntilIdleOptions,
+  IdleTimeoutError,
+  RequestTimeoutError,
+  RequestCancelledError,
+} from './lsp-client';
+export {
+  WebSocketOptions,
+  WebSocketMessageReader,
+  WebSocketMessageWriter,
+} from './websocket-transport';
+export {
+  LanguageRegistry,
+  LanguageDefinition,
+  LanguageOptionsSchema,
+  LanguageServerOptions,
+  ServerRequirement,
+} from './language-registry';
+export { BUILTIN_LANGUAGES, languageRegistry } from './lsp-server';
+export {
+  ServerDefinition,
+  loadServerDefinitions,
+  createServerLanguage,
+  registerServerDefinitions,
+} from './server-definitions';
+export {
+  doctor,
+  checkLanguage,
+  findExecutable,
+  LanguageReport,
+  RequirementCheck,
+} from './doctor';
+export { applyTextEdits } from './workspace-edit';
+export {
+  WorkspaceEditApplier,
+  DiskEditApplier,
+  InMemoryEditApplier,
+  DryRunEditApplier,
+  RecordedWorkspaceEdit,
+} from './edit-appliers';
+export { toLocations } from './locations';
+export {
+  NormalizedLSPClient,
+  ResolvedLocation,
+  SymbolNode,
+  normalizeLocations,
+  normalizeSymbols,
+  normalizeCompletions,
+  uriToFilePath,
+} from './normalized-client';
+export {
+  decodeSemanticTokens,
+  applySemanticTokensEdits,
+  DecodedSemanticToken,
+} from './semantic-tokens';
+export {
+  buildCallGraph,
+  CallGraph,
+  CallGraphNode,
+  CallGraphEdge,
+  CallGraphOptions,
+  CallGraphDirection,
+  CallHierarchyProvider,
+} from './call-graph';
+export {
+  buildTypeHierarchy,
+  TypeHierarchyTree,
+  TypeHierarchyNode,
+  TypeHierarchyOptions,
+  TypeHierarchyProvider,
+} from './type-hierarchy';
 
 // Re-export commonly used types from the protocol
 export {
@@ -6,12 +91,38 @@ export {
   CompletionItem,
   CompletionList,
   Hover,
+  SignatureHelp,
   Location,
   LocationLink,
   DocumentSymbol,
   SymbolInformation,
+  WorkspaceSymbol,
+  SymbolKind,
+  PrepareRenameResult,
+  WorkspaceEdit,
+  ApplyWorkspaceEditResult,
+  TextEdit,
+  CodeAction,
+  CodeActionContext,
+  Command,
+  FormattingOptions,
+  SemanticTokens,
+  SemanticTokensDelta,
+  SemanticTokensLegend,
+  CallHierarchyItem,
+  CallHierarchyIncomingCall,
+  CallHierarchyOutgoingCall,
+  TypeHierarchyItem,
   Diagnostic,
   DiagnosticSeverity,
+  ShowMessageParams,
+  ShowMessageRequestParams,
+  MessageActionItem,
+  MessageType,
+  LogMessageParams,
+  LogTraceParams,
+  ShowDocumentParams,
+  ShowDocumentResult,
   PublishDiagnosticsParams,
   Position,
   Range,
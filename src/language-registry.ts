@@ -0,0 +1,137 @@
+import * as path from 'path';
+import { Logger } from 'vscode-languageserver-protocol';
+import { LSPClient } from './lsp-client';
+import { findFilesByExtension } from './lsp-server/find-files';
+
+/**
+ * JSON Schema of the options a language server factory takes beyond rootUri,
+ * logger and serverArgs. The bridge validates /start bodies against it.
+ */
+export interface LanguageOptionsSchema {
+  type: 'object';
+  properties: Record<string, Record<string, unknown>>;
+  required?: string[];
+}
+
+/** Options every language server factory accepts */
+export interface LanguageServerOptions {
+  /** Root URI for the workspace */
+  rootUri: string;
+  /** Optional logger */
+  logger?: Logger;
+  /** Additional arguments to pass to the server */
+  serverArgs?: string[];
+}
+
+/**
+ * Something that must exist on this machine before a language server can
+ * start. Checked by doctor() without starting the server.
+ */
+export interface ServerRequirement {
+  /**
+   * executable: a command on PATH or a path to one; jar: a JAR file;
+   * directory: a directory; poetry: a directory with an installed poetry environment
+   */
+  kind: 'executable' | 'jar' | 'directory' | 'poetry';
+  /** Command or path; undefined when the option that provides it is not set */
+  target?: string;
+  /** The factory option that provides the target */
+  option?: string;
+  /**
+   * Arguments that print the version. Run with the executable, or with
+   * `poetry run` in the directory for poetry requirements.
+   */
+  versionArgs?: string[];
+}
+
+export interface LanguageDefinition<TOptions extends LanguageServerOptions = LanguageServerOptions> {
+  /** Identifier of the language, used as `language` by the bridge (e.g. 'typescript') */
+  id: string;
+  /** Display name (e.g. 'TypeScript') */
+  name: string;
+  /** LSP language identifier of the documents, sent with didOpen by the bridge (default: id) */
+  languageId?: string;
+  /** File extensions handled by the server, including the dot */
+  extensions: string[];
+  /** Directories skipped when searching a workspace for source files */
+  excludedDirs: string[];
+  /** Schema of the language-specific factory options */
+  optionsSchema: LanguageOptionsSchema;
+  /** How to install the server */
+  installHint?: string;
+  /** What the server needs on this machine, given the options it would be started with */
+  requirements?(options: Partial<TOptions>): ServerRequirement[];
+  createClient(options: TOptions): LSPClient;
+}
+
+/**
+ * The language servers known to the bridge and to file routing. The built-in
+ * servers are registered in lsp-server/index.ts; library users can register
+ * their own at runtime.
+ */
+export class LanguageRegistry {
+  private languages: Map<string, LanguageDefinition> = new Map();
+
+  constructor(definitions: LanguageDefinition[] = []) {
+    for (const definition of definitions) {
+      this.register(definition);
+    }
+  }
+
+  /**
+   * Register a language. Throws if the id is already registered; call
+   * unregister() first to replace a language.
+   */
+  register<TOptions extends LanguageServerOptions>(definition: LanguageDefinition<TOptions>): void {
+    if (this.languages.has(definition.id)) {
+      throw new Error(`Language already registered: ${definition.id}`);
+    }
+    this.languages.set(definition.id, definition as LanguageDefinition);
+  }
+
+  unregister(id: string): boolean {
+    return this.languages.delete(id);
+  }
+
+  get(id: string): LanguageDefinition | undefined {
+    return this.languages.get(id);
+  }
+
+  has(id: string): boolean {
+    return this.languages.has(id);
+  }
+
+  list(): LanguageDefinition[] {
+    return [...this.languages.values()];
+  }
+
+  /**
+   * The language whose extensions include the extension of a file path or URI.
+   */
+  getByFile(pathOrUri: string): LanguageDefinition | undefined {
+    const extension = path.posix.extname(pathOrUri.split(/[?#]/)[0]);
+    if (!extension) {
+      return undefined;
+    }
+    return this.list().find((language) => language.extensions.includes(extension));
+  }
+
+  createClient(id: string, options: LanguageServerOptions & Record<string, unknown>): LSPClient {
+    const language = this.languages.get(id);
+    if (!language) {
+      throw new Error(`Unknown language: ${id}`);
+    }
+    return language.createClient(options);
+  }
+
+  /**
+   * Recursively find the source files of a language in a directory.
+   */
+  findFiles(id: string, dir: string): string[] {
+    const language = this.languages.get(id);
+    if (!language) {
+      throw new Error(`Unknown language: ${id}`);
+    }
+    return findFilesByExtension(dir, language.extensions, language.excludedDirs);
+  }
+}
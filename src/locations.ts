@@ -0,0 +1,19 @@
+import { Location, LocationLink } from 'vscode-languageserver-protocol';
+
+/**
+ * Normalize the result of a navigation request (definition, declaration,
+ * implementation, type definition) into a flat array of Locations.
+ *
+ * LocationLinks are mapped to their target URI and target selection range,
+ * i.e. the range of the symbol name rather than the whole declaration.
+ */
+export function toLocations(result: Location | Location[] | LocationLink[] | null | undefined): Location[] {
+  if (!result) {
+    return [];
+  }
+
+  const items: (Location | LocationLink)[] = Array.isArray(result) ? result : [result];
+  return items.map((item) => LocationLink.is(item)
+    ? { uri: item.targetUri, range: item.targetSelectionRange }
+    : item);
+}
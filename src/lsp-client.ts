@@ -1,5 +1,9 @@
-import { spawn, ChildProcess } from 'child_process';
+import { spawn, ChildProcess, StdioOptions } from 'child_process';
 import * as net from 'net';
+import WebSocket from 'ws';
+import * as os from 'os';
+import * as path from 'path';
+import { randomBytes } from 'crypto';
 import {
   createProtocolConnection,
   ProtocolConnection,
@@ -32,26 +36,166 @@ import {
   DocumentSymbolParams,
   DocumentSymbol,
   SymbolInformation,
+  PrepareRenameRequest,
+  PrepareRenameParams,
+  PrepareRenameResult,
+  RenameRequest,
+  RenameParams,
+  WorkspaceEdit,
+  TextEdit,
+  TextDocumentEdit,
+  CreateFile,
+  RenameFile,
+  DeleteFile,
+  CodeActionRequest,
+  CodeActionParams,
+  CodeActionContext,
+  CodeActionResolveRequest,
+  CodeActionKind,
+  CodeAction,
+  Command,
+  ExecuteCommandRequest,
+  ExecuteCommandParams,
+  Range,
+  FormattingOptions,
+  DocumentFormattingRequest,
+  DocumentFormattingParams,
+  DocumentRangeFormattingRequest,
+  DocumentRangeFormattingParams,
+  DocumentOnTypeFormattingRequest,
+  DocumentOnTypeFormattingParams,
+  SignatureHelpRequest,
+  SignatureHelpParams,
+  SignatureHelpContext,
+  SignatureHelp,
+  SemanticTokensRequest,
+  SemanticTokensParams,
+  SemanticTokensDeltaRequest,
+  SemanticTokensDeltaParams,
+  SemanticTokensRangeRequest,
+  SemanticTokensRangeParams,
+  SemanticTokensRegistrationType,
+  SemanticTokens,
+  SemanticTokensDelta,
+  SemanticTokenTypes,
+  SemanticTokenModifiers,
+  TokenFormat,
+  CallHierarchyPrepareRequest,
+  CallHierarchyPrepareParams,
+  CallHierarchyIncomingCallsRequest,
+  CallHierarchyOutgoingCallsRequest,
+  CallHierarchyItem,
+  CallHierarchyIncomingCall,
+  CallHierarchyOutgoingCall,
+  TypeHierarchyPrepareRequest,
+  TypeHierarchyPrepareParams,
+  TypeHierarchySupertypesRequest,
+  TypeHierarchySubtypesRequest,
+  TypeHierarchyItem,
+  WorkspaceSymbolRequest,
+  WorkspaceSymbolParams,
+  WorkspaceSymbolResolveRequest,
+  WorkspaceSymbol,
+  SymbolKind,
+  ImplementationRequest,
+  ImplementationParams,
+  TypeDefinitionRequest,
+  TypeDefinitionParams,
+  DeclarationRequest,
+  DeclarationParams,
   TextDocumentSyncKind,
+  TextDocumentContentChangeEvent,
   PublishDiagnosticsNotification,
   PublishDiagnosticsParams,
   ConfigurationRequest,
   ConfigurationParams,
+  DidChangeConfigurationNotification,
+  DidChangeConfigurationParams,
+  ShowMessageNotification,
+  ShowMessageParams,
+  ShowMessageRequest,
+  ShowMessageRequestParams,
+  MessageActionItem,
+  MessageType,
+  LogMessageNotification,
+  LogMessageParams,
+  TelemetryEventNotification,
+  LogTraceNotification,
+  LogTraceParams,
+  TraceValues,
+  ShowDocumentRequest,
+  ShowDocumentParams,
+  ShowDocumentResult,
+  ApplyWorkspaceEditRequest,
+  ApplyWorkspaceEditParams,
+  ApplyWorkspaceEditResult,
   RegistrationRequest,
+  Registration,
+  UnregistrationRequest,
+  SemanticTokensLegend,
+  SemanticTokensRegistrationOptions,
   WorkDoneProgressCreateRequest,
+  WorkDoneProgressCreateParams,
+  WorkDoneProgress,
+  WorkDoneProgressBegin,
+  WorkDoneProgressReport,
+  WorkDoneProgressEnd,
+  ProgressToken,
+  Disposable,
   Logger,
   Diagnostic,
+  ProtocolRequestType,
+  CancellationToken,
+  CancellationTokenSource,
 } from 'vscode-languageserver-protocol';
 import {
   StreamMessageReader,
   StreamMessageWriter,
+  IPCMessageReader,
+  IPCMessageWriter,
+  MessageReader,
+  MessageWriter,
 } from 'vscode-jsonrpc/node';
-
-const SOCKET_CONNECTION_DELAY_MS = 2000;
+import * as fs from 'fs';
+import {
+  uriToPath,
+  applyTextEdits,
+  sortTextEditsForSequentialApplication,
+  createFileOnDisk,
+  renameFileOnDisk,
+  deleteFileOnDisk,
+  checkDocumentVersion,
+} from './workspace-edit';
+import {
+  WebSocketOptions,
+  WebSocketMessageReader,
+  WebSocketMessageWriter,
+  connectWebSocket,
+} from './websocket-transport';
+import { WorkspaceEditApplier, DiskEditApplier } from './edit-appliers';
+import { decodeSemanticTokens, applySemanticTokensEdits, DecodedSemanticToken } from './semantic-tokens';
+import { toLocations } from './locations';
+
+const DEFAULT_SOCKET_CONNECT_TIMEOUT_MS = 10000;
+const SOCKET_RETRY_INITIAL_DELAY_MS = 100;
+const SOCKET_RETRY_MAX_DELAY_MS = 1000;
+// Replaced in serverArgs with the port or pipe the client listens on in 'listen' mode
+const PORT_PLACEHOLDER = '${port}';
+const PIPE_PLACEHOLDER = '${pipe}';
+// Tells servers built on vscode-languageserver to communicate over Node IPC
+const NODE_IPC_FLAG = '--node-ipc';
 const SHUTDOWN_GRACE_PERIOD_MS = 100;
+const DEFAULT_REQUEST_TIMEOUT_MS = 60000;
+const DEFAULT_IDLE_TIMEOUT_MS = 60000;
+const DEFAULT_IDLE_QUIET_PERIOD_MS = 500;
+const DEFAULT_MAX_RESTART_ATTEMPTS = 5;
+const DEFAULT_RESTART_INITIAL_DELAY_MS = 500;
+const DEFAULT_RESTART_MAX_DELAY_MS = 30000;
+const DEFAULT_RESTART_STABLE_AFTER_MS = 30000;
 
 export interface LSPClientOptions {
-  serverCommand: string;
+  // Command to spawn the server (not needed with attach)
+  serverCommand?: string;
   serverArgs?: string[];
   rootUri: string;
   workspaceFolders?: { uri: string; name: string }[];
@@ -59,10 +203,169 @@ export interface LSPClientOptions {
   // Working directory for the server process
   cwd?: string;
   // Socket connection options (alternative to stdio)
-  socket?: {
-    port: number;
-    host?: string;  // defaults to 'localhost'
-  };
+  socket?: SocketOptions;
+  // Unix domain socket or Windows named pipe options (alternative to stdio)
+  pipe?: PipeOptions;
+  // Communicate over Node IPC; the server must be a Node.js program (alternative to stdio)
+  nodeIpc?: boolean;
+  // Connect to an already running server instead of spawning serverCommand
+  attach?: AttachOptions;
+  // Connect to a server exposed over a WebSocket instead of spawning serverCommand
+  webSocket?: WebSocketOptions;
+  // Default timeout for requests in milliseconds (default: 60000, 0 disables it)
+  requestTimeout?: number;
+  // Restart the server automatically when its process exits unexpectedly
+  restart?: RestartOptions;
+  // Settings keyed by section (e.g. { gopls: { staticcheck: true } }), used to answer workspace/configuration
+  settings?: Record<string, unknown>;
+  // Server-specific options sent as initializationOptions in the initialize request
+  initializationOptions?: unknown;
+  // Ask the server to send $/logTrace notifications (default: 'off')
+  trace?: TraceValues;
+  // Applies workspace/applyEdit requests from the server (default: DiskEditApplier)
+  editApplier?: WorkspaceEditApplier;
+}
+
+export interface SocketOptions {
+  /** Port the server listens on, or the client listens on in 'listen' mode (0 picks a free port) */
+  port: number;
+  /** Defaults to 'localhost' */
+  host?: string;
+  /**
+   * 'connect' (default): the client connects to the server, retrying until it listens.
+   * 'listen': the client listens and the server connects back; '${port}' in
+   * serverArgs is replaced with the listening port.
+   */
+  mode?: 'connect' | 'listen';
+  /** Total time to wait for the socket connection in milliseconds (default: 10000) */
+  connectTimeout?: number;
+}
+
+export interface PipeOptions {
+  /** Path of the Unix domain socket or named pipe; generated in 'listen' mode when omitted */
+  path?: string;
+  /**
+   * 'connect' (default): the client connects to a pipe the server listens on.
+   * 'listen': the client listens and the server connects back; '${pipe}' in
+   * serverArgs is replaced with the pipe path.
+   */
+  mode?: 'connect' | 'listen';
+  /** Total time to wait for the connection in milliseconds (default: 10000) */
+  connectTimeout?: number;
+}
+
+export interface AttachOptions {
+  /** Port of the running server */
+  port?: number;
+  /** Defaults to 'localhost' */
+  host?: string;
+  /** Unix domain socket or named pipe of the running server, instead of a port */
+  path?: string;
+  /** Total time to wait for the connection in milliseconds (default: 10000) */
+  connectTimeout?: number;
+}
+
+export interface RestartOptions {
+  enabled: boolean;
+  /** Restart attempts after a crash before giving up (default: 5) */
+  maxAttempts?: number;
+  /** Delay before the first attempt, doubled after every failed attempt (default: 500) */
+  initialDelayMs?: number;
+  /** Upper bound for the delay between attempts (default: 30000) */
+  maxDelayMs?: number;
+  /**
+   * How long a restarted server must stay up before the attempts are counted
+   * from zero again; a crash before that continues the backoff (default: 30000)
+   */
+  stableAfterMs?: number;
+}
+
+export type LifecycleEvent =
+  | { type: 'started' }
+  | { type: 'stopped' }
+  | { type: 'crashed'; code: number | null; signal: NodeJS.Signals | null; willRestart: boolean }
+  | { type: 'restarting'; attempt: number; delayMs: number }
+  | { type: 'restarted'; attempt: number }
+  | { type: 'restart-failed'; attempts: number };
+
+/** Payloads of the events emitted by LSPClient, keyed by event name */
+export interface LSPClientEvents {
+  diagnostics: PublishDiagnosticsParams;
+  showMessage: ShowMessageParams;
+  showMessageRequest: ShowMessageRequestParams;
+  showDocument: ShowDocumentParams;
+  logMessage: LogMessageParams;
+  telemetry: unknown;
+  logTrace: LogTraceParams;
+  lifecycle: LifecycleEvent;
+}
+
+export type LSPClientEventName = keyof LSPClientEvents;
+export type LSPClientEventHandler<E extends LSPClientEventName> = (payload: LSPClientEvents[E]) => void;
+
+/** Chooses the answer to a window/showMessageRequest; null means no action was chosen */
+export type ShowMessageRequestHandler = (
+  params: ShowMessageRequestParams
+) => MessageActionItem | null | Promise<MessageActionItem | null>;
+
+/** Answers a window/showDocument request */
+export type ShowDocumentHandler = (
+  params: ShowDocumentParams
+) => ShowDocumentResult | Promise<ShowDocumentResult>;
+
+interface EventHandlerEntry {
+  handler: (payload: never) => void;
+  once: boolean;
+}
+
+export interface RequestOptions {
+  /** Timeout in milliseconds, overriding LSPClientOptions.requestTimeout (0 disables it) */
+  timeout?: number;
+  /** Cancels the request when aborted */
+  signal?: AbortSignal;
+}
+
+export class RequestTimeoutError extends Error {
+  constructor(method: string, timeout: number) {
+    super(`Request ${method} timed out after ${timeout}ms`);
+    this.name = 'RequestTimeoutError';
+  }
+}
+
+export class RequestCancelledError extends Error {
+  constructor(method: string) {
+    super(`Request ${method} was cancelled`);
+    this.name = 'RequestCancelledError';
+  }
+}
+
+export interface ProgressInfo {
+  token: ProgressToken;
+  title: string;
+  message?: string;
+  /** Completion percentage (0-100), if the server reports one */
+  percentage?: number;
+  cancellable?: boolean;
+}
+
+export interface WaitUntilIdleOptions {
+  /** Maximum time to wait in milliseconds (default: 60000, 0 disables it) */
+  timeout?: number;
+  /**
+   * How long no work-done progress must be active before the server counts as
+   * idle, so progress that starts shortly after a request is not missed (default: 500)
+   */
+  quietPeriod?: number;
+}
+
+export class IdleTimeoutError extends Error {
+  constructor(timeout: number, public activeProgress: ProgressInfo[]) {
+    super(
+      `Server did not become idle within ${timeout}ms` +
+      ` (active: ${activeProgress.map((progress) => progress.title).join(', ')})`
+    );
+    this.name = 'IdleTimeoutError';
+  }
 }
 
 export interface DocumentInfo {
@@ -72,85 +375,356 @@ export interface DocumentInfo {
   text: string;
 }
 
+interface Transport {
+  reader: MessageReader;
+  writer: MessageWriter;
+}
+
+type SocketTarget = { port: number; host: string } | { path: string };
+
+function describeTarget(target: SocketTarget): string {
+  return 'path' in target ? target.path : `${target.host}:${target.port}`;
+}
+
+function generatePipePath(): string {
+  const name = `mojo-lsp-${randomBytes(8).toString('hex')}`;
+  return process.platform === 'win32' ? `\\\\.\\pipe\\${name}` : path.join(os.tmpdir(), `${name}.sock`);
+}
+
+function socketTransport(socket: net.Socket): Transport {
+  return {
+    reader: new StreamMessageReader(socket),
+    writer: new StreamMessageWriter(socket),
+  };
+}
+
+function tryConnect(target: SocketTarget): Promise<net.Socket> {
+  return new Promise<net.Socket>((resolve, reject) => {
+    const onError = (err: Error): void => {
+      socket.destroy();
+      reject(err);
+    };
+    const socket = net.createConnection(target, () => {
+      // The message reader and writer handle errors from here on
+      socket.off('error', onError);
+      resolve(socket);
+    });
+    socket.once('error', onError);
+  });
+}
+
 export class LSPClient {
   private process: ChildProcess | null = null;
   private socket: net.Socket | null = null;
+  private webSocket: WebSocket | null = null;
   private connection: ProtocolConnection | null = null;
   private serverCapabilities: InitializeResult | null = null;
   private openDocuments: Map<string, DocumentInfo> = new Map();
-  private diagnosticsHandlers: ((params: PublishDiagnosticsParams) => void)[] = [];
+  private eventHandlers: Map<LSPClientEventName, EventHandlerEntry[]> = new Map();
+  private showMessageRequestHandler: ShowMessageRequestHandler | null = null;
+  private showDocumentHandler: ShowDocumentHandler | null = null;
+  private activeProgress: Map<ProgressToken, ProgressInfo> = new Map();
+  private progressSubscriptions: Map<ProgressToken, Disposable> = new Map();
+  private progressListeners: (() => void)[] = [];
+  // Capabilities the server registered dynamically, by registration id
+  private registrations: Map<string, Registration> = new Map();
+  // Last full semantic tokens of each document, the base for delta requests
+  private semanticTokensResults: Map<string, { resultId: string; data: number[] }> = new Map();
+  private started = false;
+  private stopping = false;
+  private restarting = false;
+  private restartTimer: NodeJS.Timeout | null = null;
+  // Restart attempts since the server last ran stably, see RestartOptions.stableAfterMs
+  private restartAttempts = 0;
+  private stableTimer: NodeJS.Timeout | null = null;
 
   constructor(private options: LSPClientOptions) {}
 
   async start(): Promise<InitializeResult> {
+    this.stopping = false;
+
     try {
-      const { reader, writer } = this.options.socket
-        ? await this.spawnViaSocket()
-        : this.spawnViaStdio();
+      const result = await this.connect();
+      this.started = true;
+      this.emitLifecycle({ type: 'started' });
+      return result;
+    } catch (error) {
+      await this.cleanup();
+      throw error;
+    }
+  }
 
-      this.initializeConnection(reader, writer);
+  private async connect(): Promise<InitializeResult> {
+    const { reader, writer } = await this.openTransport();
 
-      this.serverCapabilities = await this.connection!.sendRequest(
-        InitializeRequest.type,
-        this.buildInitializeParams()
-      );
+    this.initializeConnection(reader, writer);
 
-      this.connection!.sendNotification(InitializedNotification.type, {});
+    this.serverCapabilities = await this.connection!.sendRequest(
+      InitializeRequest.type,
+      this.buildInitializeParams()
+    );
 
-      return this.serverCapabilities;
-    } catch (error) {
-      await this.cleanup();
-      throw error;
+    await this.connection!.sendNotification(InitializedNotification.type, {});
+
+    // Servers such as pylsp only read settings pushed to them
+    if (this.options.settings) {
+      await this.sendSettings();
     }
+
+    return this.serverCapabilities;
   }
 
-  private spawnViaStdio(): { reader: StreamMessageReader; writer: StreamMessageWriter } {
-    this.process = spawn(this.options.serverCommand, this.options.serverArgs || [], {
-      stdio: ['pipe', 'pipe', 'pipe'],
-      cwd: this.options.cwd,
-    });
+  private async openTransport(): Promise<Transport> {
+    if (this.options.webSocket) {
+      return this.connectViaWebSocket();
+    }
+    if (this.options.attach) {
+      return this.attachToServer();
+    }
+    if (this.options.nodeIpc) {
+      return this.spawnViaNodeIpc();
+    }
+    if (this.options.pipe) {
+      return this.spawnViaPipe();
+    }
+    if (this.options.socket) {
+      return this.spawnViaSocket();
+    }
+    return this.spawnViaStdio();
+  }
+
+  private async spawnViaStdio(): Promise<Transport> {
+    const child = this.spawnServerProcess(this.options.serverArgs || []);
+    await this.waitForSpawn(child);
 
-    if (!this.process.stdin || !this.process.stdout) {
+    if (!child.stdin || !child.stdout) {
       throw new Error('Failed to create server process streams');
     }
 
-    this.attachProcessHandlers();
+    return {
+      reader: new StreamMessageReader(child.stdout),
+      writer: new StreamMessageWriter(child.stdin),
+    };
+  }
+
+  private async spawnViaNodeIpc(): Promise<Transport> {
+    const serverArgs = this.options.serverArgs || [];
+    const child = this.spawnServerProcess(
+      serverArgs.includes(NODE_IPC_FLAG) ? serverArgs : [...serverArgs, NODE_IPC_FLAG],
+      ['ignore', 'ignore', 'pipe', 'ipc']
+    );
+    await this.waitForSpawn(child);
+
+    return {
+      reader: new IPCMessageReader(child),
+      writer: new IPCMessageWriter(child),
+    };
+  }
+
+  private async spawnViaSocket(): Promise<Transport> {
+    const {
+      port,
+      host = 'localhost',
+      mode = 'connect',
+      connectTimeout = DEFAULT_SOCKET_CONNECT_TIMEOUT_MS,
+    } = this.options.socket!;
+
+    this.socket = mode === 'listen'
+      ? await this.acceptServerConnection({ port, host }, connectTimeout)
+      : await this.connectToServer({ port, host }, connectTimeout);
+
+    return socketTransport(this.socket);
+  }
+
+  private async spawnViaPipe(): Promise<Transport> {
+    const {
+      path: pipePath,
+      mode = 'connect',
+      connectTimeout = DEFAULT_SOCKET_CONNECT_TIMEOUT_MS,
+    } = this.options.pipe!;
+
+    if (mode === 'listen') {
+      this.socket = await this.acceptServerConnection({ path: pipePath ?? generatePipePath() }, connectTimeout);
+    } else {
+      if (!pipePath) {
+        throw new Error('pipe.path is required to connect to a pipe');
+      }
+      this.socket = await this.connectToServer({ path: pipePath }, connectTimeout);
+    }
+
+    return socketTransport(this.socket);
+  }
+
+  /**
+   * Connect to a server that is already running. The client does not own the
+   * server, so stop() only closes the connection.
+   */
+  private async attachToServer(): Promise<Transport> {
+    const {
+      port,
+      host = 'localhost',
+      path: socketPath,
+      connectTimeout = DEFAULT_SOCKET_CONNECT_TIMEOUT_MS,
+    } = this.options.attach!;
+
+    let target: SocketTarget;
+    if (socketPath !== undefined) {
+      target = { path: socketPath };
+    } else if (port !== undefined) {
+      target = { port, host };
+    } else {
+      throw new Error('attach requires a port or a path');
+    }
+
+    this.socket = await this.connectWithRetry(target, connectTimeout);
+    return socketTransport(this.socket);
+  }
+
+  private async connectViaWebSocket(): Promise<Transport> {
+    this.webSocket = await connectWebSocket(this.options.webSocket!);
+    this.options.logger?.info(`Connected to server at ${this.options.webSocket!.url}`);
 
     return {
-      reader: new StreamMessageReader(this.process.stdout),
-      writer: new StreamMessageWriter(this.process.stdin),
+      reader: new WebSocketMessageReader(this.webSocket),
+      writer: new WebSocketMessageWriter(this.webSocket),
     };
   }
 
-  private async spawnViaSocket(): Promise<{ reader: StreamMessageReader; writer: StreamMessageWriter }> {
-    const { port, host = 'localhost' } = this.options.socket!;
+  private spawnServerProcess(serverArgs: string[], stdio: StdioOptions = ['pipe', 'pipe', 'pipe']): ChildProcess {
+    if (!this.options.serverCommand) {
+      throw new Error('serverCommand is required unless attaching to a running server');
+    }
 
-    this.process = spawn(this.options.serverCommand, this.options.serverArgs || [], {
-      stdio: ['pipe', 'pipe', 'pipe'],
+    this.process = spawn(this.options.serverCommand, serverArgs, {
+      stdio,
       cwd: this.options.cwd,
     });
 
     this.attachProcessHandlers();
+    return this.process;
+  }
+
+  /**
+   * Wait until the server process is running. Rejects with the spawn error,
+   * such as ENOENT for a missing command, if it could not be started.
+   */
+  private waitForSpawn(child: ChildProcess): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const onSpawn = () => {
+        child.off('error', onError);
+        resolve();
+      };
+      const onError = (error: Error) => {
+        child.off('spawn', onSpawn);
+        reject(error);
+      };
+      child.once('spawn', onSpawn);
+      child.once('error', onError);
+    });
+  }
+
+  /**
+   * Spawn the server and connect to it, failing early if the process exits first.
+   */
+  private async connectToServer(target: SocketTarget, connectTimeout: number): Promise<net.Socket> {
+    const child = this.spawnServerProcess(this.options.serverArgs || []);
+    await this.waitForSpawn(child);
+    return this.failOnProcessExit(child, () => this.connectWithRetry(target, connectTimeout, child));
+  }
 
-    // Wait for the server to start listening
-    await new Promise((resolve) => setTimeout(resolve, SOCKET_CONNECTION_DELAY_MS));
+  /**
+   * Connect to a port or pipe, retrying with backoff until it accepts the
+   * connection, the deadline passes or the given server process exits.
+   */
+  private async connectWithRetry(
+    target: SocketTarget,
+    connectTimeout: number,
+    child?: ChildProcess
+  ): Promise<net.Socket> {
+    const deadline = Date.now() + connectTimeout;
+    let delay = SOCKET_RETRY_INITIAL_DELAY_MS;
+
+    for (;;) {
+      if (child && (child.exitCode !== null || child.signalCode !== null)) {
+        // failOnProcessExit has already rejected with the reason
+        throw new Error('Server process exited');
+      }
 
-    this.socket = await new Promise<net.Socket>((resolve, reject) => {
-      const socket = net.createConnection({ port, host }, () => {
-        if (this.options.logger) {
-          this.options.logger.info(`Connected to server at ${host}:${port}`);
+      try {
+        const socket = await tryConnect(target);
+        this.options.logger?.info(`Connected to server at ${describeTarget(target)}`);
+        return socket;
+      } catch (error) {
+        if (Date.now() + delay > deadline) {
+          throw new Error(
+            `Failed to connect to server at ${describeTarget(target)} within ${connectTimeout}ms: ${(error as Error).message}`
+          );
         }
-        resolve(socket);
-      });
-      socket.on('error', (err) => {
-        reject(new Error(`Failed to connect to server at ${host}:${port}: ${err.message}`));
-      });
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      delay = Math.min(delay * 2, SOCKET_RETRY_MAX_DELAY_MS);
+    }
+  }
+
+  /**
+   * Listen on a port or pipe, spawn the server and wait for it to connect back.
+   */
+  private async acceptServerConnection(target: SocketTarget, connectTimeout: number): Promise<net.Socket> {
+    const server = net.createServer();
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(target, () => resolve());
     });
 
-    return {
-      reader: new StreamMessageReader(this.socket),
-      writer: new StreamMessageWriter(this.socket),
-    };
+    const listening: SocketTarget = 'path' in target
+      ? target
+      : { ...target, port: (server.address() as net.AddressInfo).port };
+    this.options.logger?.info(`Waiting for server to connect to ${describeTarget(listening)}`);
+
+    let timer: NodeJS.Timeout | undefined;
+    try {
+      const serverArgs = (this.options.serverArgs || []).map((arg) => 'path' in listening
+        ? arg.split(PIPE_PLACEHOLDER).join(listening.path)
+        : arg.split(PORT_PLACEHOLDER).join(String(listening.port)));
+      const child = this.spawnServerProcess(serverArgs);
+
+      return await this.failOnProcessExit(child, () => new Promise<net.Socket>((resolve, reject) => {
+        timer = setTimeout(() => {
+          reject(new Error(`Server did not connect to ${describeTarget(listening)} within ${connectTimeout}ms`));
+        }, connectTimeout);
+        server.once('connection', (socket) => {
+          this.options.logger?.info(`Server connected to ${describeTarget(listening)}`);
+          resolve(socket);
+        });
+      }));
+    } finally {
+      clearTimeout(timer);
+      // Stops accepting connections; the accepted one stays open
+      server.close();
+    }
+  }
+
+  /**
+   * Run a connection attempt, rejecting as soon as the server process exits
+   * or fails to spawn instead of waiting for the attempt to time out.
+   */
+  private failOnProcessExit<T>(child: ChildProcess, attempt: () => Promise<T>): Promise<T> {
+    let onExit: (code: number | null, signal: NodeJS.Signals | null) => void = () => {};
+    let onError: (error: Error) => void = () => {};
+    const exited = new Promise<never>((_resolve, reject) => {
+      onExit = (code, signal) => reject(new Error(
+        `Server process exited (code ${code}, signal ${signal}) before the socket connected`
+      ));
+      onError = reject;
+      child.once('exit', onExit);
+      child.once('error', onError);
+    });
+
+    return Promise.race([attempt(), exited]).finally(() => {
+      child.off('exit', onExit);
+      child.off('error', onError);
+    });
   }
 
   private attachProcessHandlers(): void {
@@ -160,14 +734,120 @@ export class LSPClient {
       }
     });
 
-    this.process?.on('exit', (code) => {
+    const child = this.process;
+    // Spawn failures are reported by waitForSpawn or failOnProcessExit; without
+    // a listener they would crash the host process
+    child?.on('error', (error) => {
+      this.options.logger?.error(`Server process error: ${error.message}`);
+    });
+    child?.on('exit', (code, signal) => {
       if (this.options.logger) {
         this.options.logger.info(`Server process exited with code ${code}`);
       }
+      this.handleProcessExit(child, code, signal);
     });
   }
 
-  private initializeConnection(reader: StreamMessageReader, writer: StreamMessageWriter): void {
+  private handleProcessExit(
+    child: ChildProcess,
+    code: number | null,
+    signal: NodeJS.Signals | null
+  ): void {
+    // Ignore processes we already replaced or are shutting down on purpose
+    if (child !== this.process || this.stopping) {
+      return;
+    }
+
+    // Fail the pending initialize of start() or restart() instead of waiting on a dead server
+    this.disposeTransport();
+    this.clearStableTimer();
+    if (!this.started || this.restarting) {
+      return;
+    }
+
+    const willRestart = this.options.restart?.enabled === true;
+    this.options.logger?.error(`Server process crashed (code ${code}, signal ${signal})`);
+    this.emitLifecycle({ type: 'crashed', code, signal, willRestart });
+
+    if (willRestart) {
+      this.scheduleRestart(this.restartAttempts);
+    }
+  }
+
+  private scheduleRestart(attempt: number): void {
+    const {
+      maxAttempts = DEFAULT_MAX_RESTART_ATTEMPTS,
+      initialDelayMs = DEFAULT_RESTART_INITIAL_DELAY_MS,
+      maxDelayMs = DEFAULT_RESTART_MAX_DELAY_MS,
+    } = this.options.restart ?? {};
+
+    if (attempt >= maxAttempts) {
+      this.options.logger?.error(`Giving up restarting the server after ${attempt} attempts`);
+      this.emitLifecycle({ type: 'restart-failed', attempts: attempt });
+      return;
+    }
+
+    const delayMs = Math.min(initialDelayMs * 2 ** attempt, maxDelayMs);
+    this.restartAttempts = attempt + 1;
+    this.emitLifecycle({ type: 'restarting', attempt: attempt + 1, delayMs });
+
+    this.restartTimer = setTimeout(() => {
+      this.restartTimer = null;
+      void this.restart(attempt);
+    }, delayMs);
+  }
+
+  /**
+   * Start a fresh server process, re-send initialize and re-open every
+   * document at its latest text.
+   */
+  private async restart(attempt: number): Promise<void> {
+    this.restarting = true;
+
+    try {
+      await this.connect();
+      for (const doc of this.openDocuments.values()) {
+        this.sendDidOpen(doc);
+      }
+      this.restarting = false;
+      this.options.logger?.info(`Server restarted after ${attempt + 1} attempt(s)`);
+      this.stableTimer = setTimeout(() => {
+        this.stableTimer = null;
+        this.restartAttempts = 0;
+      }, this.options.restart?.stableAfterMs ?? DEFAULT_RESTART_STABLE_AFTER_MS);
+      this.emitLifecycle({ type: 'restarted', attempt: attempt + 1 });
+    } catch (error) {
+      this.restarting = false;
+      this.options.logger?.error(`Server restart failed: ${error}`);
+      this.disposeTransport();
+      if (!this.stopping) {
+        this.scheduleRestart(attempt + 1);
+      }
+    }
+  }
+
+  private clearStableTimer(): void {
+    if (this.stableTimer) {
+      clearTimeout(this.stableTimer);
+      this.stableTimer = null;
+    }
+  }
+
+  private emitLifecycle(event: LifecycleEvent): void {
+    this.emit('lifecycle', event);
+  }
+
+  private emit<E extends LSPClientEventName>(event: E, payload: LSPClientEvents[E]): void {
+    const entries = this.eventHandlers.get(event);
+    if (!entries) return;
+
+    this.eventHandlers.set(event, entries.filter((entry) => !entry.once));
+    for (const entry of entries) {
+      (entry.handler as LSPClientEventHandler<E>)(payload);
+    }
+  }
+
+  private initializeConnection(reader: MessageReader, writer: MessageWriter): void {
     this.connection = createProtocolConnection(reader, writer, this.options.logger);
 
     this.connection.onError((error) => {
@@ -190,6 +870,8 @@ export class LSPClient {
     return {
       processId: process.pid,
       rootUri: this.options.rootUri,
+      initializationOptions: this.options.initializationOptions,
+      trace: this.options.trace,
       capabilities: {
         textDocument: {
           synchronization: {
@@ -213,10 +895,33 @@ export class LSPClient {
             dynamicRegistration: true,
             contentFormat: ['markdown', 'plaintext'],
           },
+          signatureHelp: {
+            dynamicRegistration: true,
+            signatureInformation: {
+              documentationFormat: ['markdown', 'plaintext'],
+              parameterInformation: {
+                labelOffsetSupport: true,
+              },
+              activeParameterSupport: true,
+            },
+            contextSupport: true,
+          },
           definition: {
             dynamicRegistration: true,
             linkSupport: true,
           },
+          declaration: {
+            dynamicRegistration: true,
+            linkSupport: true,
+          },
+          typeDefinition: {
+            dynamicRegistration: true,
+            linkSupport: true,
+          },
+          implementation: {
+            dynamicRegistration: true,
+            linkSupport: true,
+          },
           references: {
             dynamicRegistration: true,
           },
@@ -224,15 +929,94 @@ export class LSPClient {
             dynamicRegistration: true,
             hierarchicalDocumentSymbolSupport: true,
           },
+          rename: {
+            dynamicRegistration: true,
+            prepareSupport: true,
+          },
+          codeAction: {
+            dynamicRegistration: true,
+            codeActionLiteralSupport: {
+              codeActionKind: {
+                valueSet: [
+                  CodeActionKind.Empty,
+                  CodeActionKind.QuickFix,
+                  CodeActionKind.Refactor,
+                  CodeActionKind.RefactorExtract,
+                  CodeActionKind.RefactorInline,
+                  CodeActionKind.RefactorRewrite,
+                  CodeActionKind.Source,
+                  CodeActionKind.SourceOrganizeImports,
+                  CodeActionKind.SourceFixAll,
+                ],
+              },
+            },
+            isPreferredSupport: true,
+            disabledSupport: true,
+            dataSupport: true,
+            resolveSupport: { properties: ['edit', 'command'] },
+          },
+          formatting: {
+            dynamicRegistration: true,
+          },
+          rangeFormatting: {
+            dynamicRegistration: true,
+          },
+          onTypeFormatting: {
+            dynamicRegistration: true,
+          },
+          semanticTokens: {
+            dynamicRegistration: true,
+            requests: {
+              range: true,
+              full: { delta: true },
+            },
+            tokenTypes: Object.values(SemanticTokenTypes) as string[],
+            tokenModifiers: Object.values(SemanticTokenModifiers) as string[],
+            formats: [TokenFormat.Relative],
+            overlappingTokenSupport: false,
+            multilineTokenSupport: false,
+          },
+          callHierarchy: {
+            dynamicRegistration: true,
+          },
+          typeHierarchy: {
+            dynamicRegistration: true,
+          },
           publishDiagnostics: {
             relatedInformation: true,
             tagSupport: { valueSet: [1, 2] },
             versionSupport: true,
           },
         },
+        window: {
+          workDoneProgress: true,
+          showMessage: {
+            messageActionItem: { additionalPropertiesSupport: true },
+          },
+          showDocument: { support: true },
+        },
         workspace: {
           workspaceFolders: true,
           configuration: true,
+          applyEdit: true,
+          didChangeConfiguration: {
+            dynamicRegistration: true,
+          },
+          executeCommand: {
+            dynamicRegistration: true,
+          },
+          symbol: {
+            dynamicRegistration: true,
+            symbolKind: {
+              valueSet: Object.values(SymbolKind) as SymbolKind[],
+            },
+            resolveSupport: { properties: ['location.range'] },
+          },
+          workspaceEdit: {
+            documentChanges: true,
+            resourceOperations: ['create', 'rename', 'delete'],
+            failureHandling: 'abort',
+          },
         },
       },
       workspaceFolders: this.options.workspaceFolders || [
@@ -247,89 +1031,485 @@ export class LSPClient {
     // Handle diagnostics
     this.connection.onNotification(
       PublishDiagnosticsNotification.type,
-      (params: PublishDiagnosticsParams) => {
-        for (const handler of this.diagnosticsHandlers) {
-          handler(params);
+      (params: PublishDiagnosticsParams) => this.emit('diagnostics', params)
+    );
+
+    // Handle window messages, telemetry and traces
+    this.connection.onNotification(ShowMessageNotification.type, (params) => {
+      this.logServerMessage(params);
+      this.emit('showMessage', params);
+    });
+
+    this.connection.onNotification(LogMessageNotification.type, (params) => {
+      this.logServerMessage(params);
+      this.emit('logMessage', params);
+    });
+
+    this.connection.onNotification(TelemetryEventNotification.type, (data) => {
+      this.emit('telemetry', data);
+    });
+
+    this.connection.onNotification(LogTraceNotification.type, (params) => {
+      this.emit('logTrace', params);
+    });
+
+    // Handle workspace/applyEdit, e.g. while the server executes a command
+    this.connection.onRequest(
+      ApplyWorkspaceEditRequest.type,
+      async (params: ApplyWorkspaceEditParams): Promise<ApplyWorkspaceEditResult> => {
+        const applier = this.options.editApplier ?? new DiskEditApplier();
+        try {
+          return await applier.apply(params.edit, this, params.label);
+        } catch (error) {
+          this.options.logger?.error(`Failed to apply workspace edit: ${error}`);
+          return { applied: false, failureReason: (error as Error).message };
         }
       }
     );
 
+    // Handle window/showMessageRequest: no action is chosen unless a handler is set
+    this.connection.onRequest(ShowMessageRequest.type, (params) => {
+      this.logServerMessage(params);
+      this.emit('showMessageRequest', params);
+      return this.showMessageRequestHandler ? this.showMessageRequestHandler(params) : null;
+    });
+
+    // Handle window/showDocument: documents are not shown unless a handler is set
+    this.connection.onRequest(ShowDocumentRequest.type, (params) => {
+      this.emit('showDocument', params);
+      return this.showDocumentHandler ? this.showDocumentHandler(params) : { success: false };
+    });
+
     // Handle workspace/configuration requests from server
     this.connection.onRequest(
       ConfigurationRequest.type,
       (params: ConfigurationParams) => {
-        // Return empty config for each requested item
-        return params.items.map(() => ({}));
+        return params.items.map((item) => this.getSettingsSection(item.section));
       }
     );
 
     // Handle client/registerCapability requests from server (dynamic registration)
     this.connection.onRequest(
       RegistrationRequest.type,
-      (_params) => {
-        // Accept all dynamic registrations
-        return;
+      (params) => {
+        // Accept all dynamic registrations, keeping their options
+        for (const registration of params.registrations) {
+          this.registrations.set(registration.id, registration);
+        }
+      }
+    );
+
+    this.connection.onRequest(
+      UnregistrationRequest.type,
+      (params) => {
+        for (const unregistration of params.unregisterations) {
+          this.registrations.delete(unregistration.id);
+        }
       }
     );
 
     // Handle window/workDoneProgress/create requests from server
+    const connection = this.connection;
     this.connection.onRequest(
       WorkDoneProgressCreateRequest.type,
-      (_params) => {
-        // Accept progress token creation
-        return;
+      (params: WorkDoneProgressCreateParams) => {
+        // Accept progress token creation and track the progress reported for it
+        this.progressSubscriptions.get(params.token)?.dispose();
+        this.progressSubscriptions.set(
+          params.token,
+          connection.onProgress(WorkDoneProgress.type, params.token, (value) =>
+            this.handleProgress(params.token, value)
+          )
+        );
       }
     );
   }
 
-  onDiagnostics(handler: (params: PublishDiagnosticsParams) => void): void {
-    this.diagnosticsHandlers.push(handler);
-  }
+  private handleProgress(
+    token: ProgressToken,
+    value: WorkDoneProgressBegin | WorkDoneProgressReport | WorkDoneProgressEnd
+  ): void {
+    switch (value.kind) {
+      case 'begin':
+        this.activeProgress.set(token, {
+          token,
+          title: value.title,
+          message: value.message,
+          percentage: value.percentage,
+          cancellable: value.cancellable,
+        });
+        break;
+      case 'report': {
+        const progress = this.activeProgress.get(token);
+        if (!progress) return;
+        progress.message = value.message ?? progress.message;
+        progress.percentage = value.percentage ?? progress.percentage;
+        progress.cancellable = value.cancellable ?? progress.cancellable;
+        break;
+      }
+      case 'end':
+        this.activeProgress.delete(token);
+        this.progressSubscriptions.get(token)?.dispose();
+        this.progressSubscriptions.delete(token);
+        break;
+    }
 
-  async openDocument(uri: string, languageId: string, text: string): Promise<void> {
-    if (!this.connection) {
-      throw new Error('Client not started');
+    for (const listener of [...this.progressListeners]) {
+      listener();
     }
+  }
 
-    const doc: DocumentInfo = { uri, languageId, version: 1, text };
-    this.openDocuments.set(uri, doc);
+  /**
+   * Work-done progress the server has begun and not yet ended, such as indexing.
+   */
+  getActiveProgress(): ProgressInfo[] {
+    return [...this.activeProgress.values()];
+  }
 
-    const params: DidOpenTextDocumentParams = {
-      textDocument: {
-        uri,
-        languageId,
-        version: doc.version,
-        text,
-      },
-    };
+  /**
+   * Wait until the server has no active work-done progress, e.g. until it has
+   * finished indexing after start() or openDocument(). Rejects with an
+   * IdleTimeoutError if progress is still active when the timeout expires.
+   */
+  waitUntilIdle(options: WaitUntilIdleOptions = {}): Promise<void> {
+    const {
+      timeout = DEFAULT_IDLE_TIMEOUT_MS,
+      quietPeriod = DEFAULT_IDLE_QUIET_PERIOD_MS,
+    } = options;
+
+    return new Promise((resolve, reject) => {
+      let quietTimer: NodeJS.Timeout | undefined;
+      let timeoutTimer: NodeJS.Timeout | undefined;
+
+      const finish = (error?: Error): void => {
+        clearTimeout(quietTimer);
+        clearTimeout(timeoutTimer);
+        this.progressListeners = this.progressListeners.filter((listener) => listener !== check);
+        if (error) {
+          reject(error);
+        } else {
+          resolve();
+        }
+      };
+
+      const check = (): void => {
+        clearTimeout(quietTimer);
+        if (this.activeProgress.size === 0) {
+          quietTimer = setTimeout(() => finish(), quietPeriod);
+        }
+      };
+
+      if (timeout > 0) {
+        timeoutTimer = setTimeout(
+          () => finish(new IdleTimeoutError(timeout, this.getActiveProgress())),
+          timeout
+        );
+      }
 
-    return this.connection.sendNotification(DidOpenTextDocumentNotification.type, params);
+      this.progressListeners.push(check);
+      check();
+    });
   }
 
-  async changeDocument(uri: string, text: string): Promise<void> {
+  private async sendRequest<P, R, PR, E, RO>(
+    type: ProtocolRequestType<P, R, PR, E, RO>,
+    params: P,
+    options?: RequestOptions
+  ): Promise<R> {
     if (!this.connection) {
       throw new Error('Client not started');
     }
 
-    const doc = this.openDocuments.get(uri);
-    if (!doc) {
-      throw new Error(`Document ${uri} is not open`);
+    const connection = this.connection;
+    return this.withCancellation(type.method, options, (token) =>
+      connection.sendRequest(type, params, token)
+    );
+  }
+
+  /**
+   * Run a request with the effective timeout and abort signal. Either one cancels
+   * the token (so the connection sends $/cancelRequest to the server) and rejects
+   * immediately, without waiting for a server that may never answer.
+   */
+  private async withCancellation<R>(
+    method: string,
+    options: RequestOptions = {},
+    run: (token: CancellationToken) => Promise<R>
+  ): Promise<R> {
+    const timeout = options.timeout ?? this.options.requestTimeout ?? DEFAULT_REQUEST_TIMEOUT_MS;
+    const { signal } = options;
+
+    if (signal?.aborted) {
+      throw new RequestCancelledError(method);
     }
 
-    doc.version++;
-    doc.text = text;
+    const source = new CancellationTokenSource();
+    let timer: NodeJS.Timeout | undefined;
+    let onAbort: (() => void) | undefined;
 
-    const params: DidChangeTextDocumentParams = {
-      textDocument: {
-        uri,
-        version: doc.version,
-      },
+    const cancelled = new Promise<never>((_resolve, reject) => {
+      if (timeout > 0) {
+        timer = setTimeout(() => {
+          source.cancel();
+          reject(new RequestTimeoutError(method, timeout));
+        }, timeout);
+      }
+      if (signal) {
+        onAbort = () => {
+          source.cancel();
+          reject(new RequestCancelledError(method));
+        };
+        signal.addEventListener('abort', onAbort, { once: true });
+      }
+    });
+
+    try {
+      return await Promise.race([run(source.token), cancelled]);
+    } finally {
+      clearTimeout(timer);
+      if (signal && onAbort) {
+        signal.removeEventListener('abort', onAbort);
+      }
+      source.dispose();
+    }
+  }
+
+  private logServerMessage(params: ShowMessageParams | LogMessageParams): void {
+    const message = `Server: ${params.message}`;
+    switch (params.type) {
+      case MessageType.Error:
+        this.options.logger?.error(message);
+        break;
+      case MessageType.Warning:
+        this.options.logger?.warn(message);
+        break;
+      case MessageType.Info:
+        this.options.logger?.info(message);
+        break;
+      default:
+        this.options.logger?.log(message);
+    }
+  }
+
+  /**
+   * Register a handler for an event. Handlers are removed when the client stops.
+   */
+  on<E extends LSPClientEventName>(event: E, handler: LSPClientEventHandler<E>): void {
+    this.addEventHandler(event, handler, false);
+  }
+
+  /**
+   * Register a handler that is removed after the first event.
+   */
+  once<E extends LSPClientEventName>(event: E, handler: LSPClientEventHandler<E>): void {
+    this.addEventHandler(event, handler, true);
+  }
+
+  off<E extends LSPClientEventName>(event: E, handler: LSPClientEventHandler<E>): void {
+    const entries = this.eventHandlers.get(event);
+    if (entries) {
+      this.eventHandlers.set(event, entries.filter((entry) => entry.handler !== handler));
+    }
+  }
+
+  private addEventHandler<E extends LSPClientEventName>(
+    event: E,
+    handler: LSPClientEventHandler<E>,
+    once: boolean
+  ): void {
+    const entries = this.eventHandlers.get(event) ?? [];
+    entries.push({ handler, once });
+    this.eventHandlers.set(event, entries);
+  }
+
+  /**
+   * Set the handler that answers window/showMessageRequest, or null to answer
+   * with no action.
+   */
+  setShowMessageRequestHandler(handler: ShowMessageRequestHandler | null): void {
+    this.showMessageRequestHandler = handler;
+  }
+
+  /**
+   * Set the handler that answers window/showDocument, or null to report that
+   * the document was not shown.
+   */
+  setShowDocumentHandler(handler: ShowDocumentHandler | null): void {
+    this.showDocumentHandler = handler;
+  }
+
+  /**
+   * Set the applier for workspace/applyEdit requests from the server.
+   */
+  setEditApplier(applier: WorkspaceEditApplier): void {
+    this.options.editApplier = applier;
+  }
+
+  onDiagnostics(handler: (params: PublishDiagnosticsParams) => void): void {
+    this.on('diagnostics', handler);
+  }
+
+  onLifecycle(handler: (event: LifecycleEvent) => void): void {
+    this.on('lifecycle', handler);
+  }
+
+  /**
+   * Set the automatic restart policy, e.g. for clients created by the
+   * lsp-server factories, which do not take LSPClientOptions directly.
+   */
+  setRestartOptions(restart: RestartOptions): void {
+    this.options.restart = restart;
+  }
+
+  /** Set the default request timeout in milliseconds (0 disables it) */
+  setRequestTimeout(timeout: number): void {
+    this.options.requestTimeout = timeout;
+  }
+
+  /**
+   * Replace the settings used to answer workspace/configuration. If the
+   * client is running, the server is notified with
+   * workspace/didChangeConfiguration; otherwise they apply from start().
+   */
+  async updateSettings(settings: Record<string, unknown>): Promise<void> {
+    this.options.settings = settings;
+
+    if (this.connection) {
+      await this.sendSettings();
+    }
+  }
+
+  getSettings(): Record<string, unknown> {
+    return this.options.settings ?? {};
+  }
+
+  private sendSettings(): Promise<void> {
+    const params: DidChangeConfigurationParams = {
+      settings: this.getSettings(),
+    };
+
+    return this.connection!.sendNotification(DidChangeConfigurationNotification.type, params);
+  }
+
+  /**
+   * Look up a dotted section such as 'python.analysis' in the settings. A key
+   * containing the whole section takes precedence over nested lookup, and no
+   * section returns all settings.
+   */
+  private getSettingsSection(section: string | undefined): unknown {
+    const settings = this.getSettings();
+    if (!section) {
+      return settings;
+    }
+    if (section in settings) {
+      return settings[section];
+    }
+
+    let value: unknown = settings;
+    for (const key of section.split('.')) {
+      if (value === null || typeof value !== 'object' || !(key in value)) {
+        // Unknown sections get an empty object, which servers handle better than null
+        return {};
+      }
+      value = (value as Record<string, unknown>)[key];
+    }
+    return value;
+  }
+
+  async openDocument(uri: string, languageId: string, text: string): Promise<void> {
+    if (!this.connection) {
+      throw new Error('Client not started');
+    }
+
+    const doc: DocumentInfo = { uri, languageId, version: 1, text };
+    this.openDocuments.set(uri, doc);
+
+    return this.sendDidOpen(doc);
+  }
+
+  private sendDidOpen(doc: DocumentInfo): Promise<void> {
+    const params: DidOpenTextDocumentParams = {
+      textDocument: {
+        uri: doc.uri,
+        languageId: doc.languageId,
+        version: doc.version,
+        text: doc.text,
+      },
+    };
+
+    return this.connection!.sendNotification(DidOpenTextDocumentNotification.type, params);
+  }
+
+  async changeDocument(uri: string, text: string): Promise<void> {
+    if (!this.connection) {
+      throw new Error('Client not started');
+    }
+
+    const doc = this.openDocuments.get(uri);
+    if (!doc) {
+      throw new Error(`Document ${uri} is not open`);
+    }
+
+    doc.version++;
+    doc.text = text;
+
+    const params: DidChangeTextDocumentParams = {
+      textDocument: {
+        uri,
+        version: doc.version,
+      },
       contentChanges: [{ text }],
     };
 
     this.connection.sendNotification(DidChangeTextDocumentNotification.type, params);
   }
 
+  /**
+   * Apply text edits to an open document and notify the server. The edits are
+   * sent as incremental range changes when the server supports incremental
+   * sync, and as the full new text otherwise.
+   */
+  async applyEdits(uri: string, edits: TextEdit[]): Promise<void> {
+    if (!this.connection) {
+      throw new Error('Client not started');
+    }
+
+    const doc = this.openDocuments.get(uri);
+    if (!doc) {
+      throw new Error(`Document ${uri} is not open`);
+    }
+
+    const text = applyTextEdits(doc.text, edits);
+    const contentChanges: TextDocumentContentChangeEvent[] =
+      this.getTextDocumentSyncKind() === TextDocumentSyncKind.Incremental
+        ? sortTextEditsForSequentialApplication(edits).map((edit) => ({
+          range: edit.range,
+          text: edit.newText,
+        }))
+        : [{ text }];
+
+    doc.version++;
+    doc.text = text;
+
+    const params: DidChangeTextDocumentParams = {
+      textDocument: {
+        uri,
+        version: doc.version,
+      },
+      contentChanges,
+    };
+
+    this.connection.sendNotification(DidChangeTextDocumentNotification.type, params);
+  }
+
+  private getTextDocumentSyncKind(): TextDocumentSyncKind {
+    const sync = this.serverCapabilities?.capabilities.textDocumentSync;
+    if (typeof sync === 'number') {
+      return sync;
+    }
+    return sync?.change ?? TextDocumentSyncKind.None;
+  }
+
   async closeDocument(uri: string): Promise<void> {
     if (!this.connection) {
       throw new Error('Client not started');
@@ -346,86 +1526,537 @@ export class LSPClient {
 
     this.connection.sendNotification(DidCloseTextDocumentNotification.type, params);
     this.openDocuments.delete(uri);
+    this.semanticTokensResults.delete(uri);
   }
 
   async getCompletion(
     uri: string,
     line: number,
-    character: number
+    character: number,
+    options?: RequestOptions
   ): Promise<CompletionList | CompletionItem[] | null> {
-    if (!this.connection) {
-      throw new Error('Client not started');
-    }
-
     const params: CompletionParams = {
       textDocument: { uri },
       position: { line, character },
     };
 
-    return this.connection.sendRequest(CompletionRequest.type, params);
+    return this.sendRequest(CompletionRequest.type, params, options);
   }
 
-  async getHover(uri: string, line: number, character: number): Promise<Hover | null> {
-    if (!this.connection) {
-      throw new Error('Client not started');
-    }
-
+  async getHover(
+    uri: string,
+    line: number,
+    character: number,
+    options?: RequestOptions
+  ): Promise<Hover | null> {
     const params: HoverParams = {
       textDocument: { uri },
       position: { line, character },
     };
 
-    return this.connection.sendRequest(HoverRequest.type, params);
+    return this.sendRequest(HoverRequest.type, params, options);
+  }
+
+  async getSignatureHelp(
+    uri: string,
+    line: number,
+    character: number,
+    context?: SignatureHelpContext,
+    options?: RequestOptions
+  ): Promise<SignatureHelp | null> {
+    const params: SignatureHelpParams = {
+      textDocument: { uri },
+      position: { line, character },
+      context,
+    };
+
+    return this.sendRequest(SignatureHelpRequest.type, params, options);
   }
 
   async getDefinition(
     uri: string,
     line: number,
-    character: number
+    character: number,
+    options?: RequestOptions
   ): Promise<Location | Location[] | LocationLink[] | null> {
-    if (!this.connection) {
-      throw new Error('Client not started');
-    }
-
     const params: DefinitionParams = {
       textDocument: { uri },
       position: { line, character },
     };
 
-    return this.connection.sendRequest(DefinitionRequest.type, params);
+    return this.sendRequest(DefinitionRequest.type, params, options);
+  }
+
+  async getImplementation(
+    uri: string,
+    line: number,
+    character: number,
+    options?: RequestOptions
+  ): Promise<Location[]> {
+    const params: ImplementationParams = {
+      textDocument: { uri },
+      position: { line, character },
+    };
+
+    return toLocations(await this.sendRequest(ImplementationRequest.type, params, options));
+  }
+
+  async getTypeDefinition(
+    uri: string,
+    line: number,
+    character: number,
+    options?: RequestOptions
+  ): Promise<Location[]> {
+    const params: TypeDefinitionParams = {
+      textDocument: { uri },
+      position: { line, character },
+    };
+
+    return toLocations(await this.sendRequest(TypeDefinitionRequest.type, params, options));
+  }
+
+  async getDeclaration(
+    uri: string,
+    line: number,
+    character: number,
+    options?: RequestOptions
+  ): Promise<Location[]> {
+    const params: DeclarationParams = {
+      textDocument: { uri },
+      position: { line, character },
+    };
+
+    return toLocations(await this.sendRequest(DeclarationRequest.type, params, options));
   }
 
   async getReferences(
     uri: string,
     line: number,
     character: number,
-    includeDeclaration: boolean = true
+    includeDeclaration: boolean = true,
+    options?: RequestOptions
   ): Promise<Location[] | null> {
-    if (!this.connection) {
-      throw new Error('Client not started');
-    }
-
     const params: ReferenceParams = {
       textDocument: { uri },
       position: { line, character },
       context: { includeDeclaration },
     };
 
-    return this.connection.sendRequest(ReferencesRequest.type, params);
+    return this.sendRequest(ReferencesRequest.type, params, options);
   }
 
   async getDocumentSymbols(
-    uri: string
+    uri: string,
+    options?: RequestOptions
   ): Promise<DocumentSymbol[] | SymbolInformation[] | null> {
-    if (!this.connection) {
-      throw new Error('Client not started');
+    const params: DocumentSymbolParams = {
+      textDocument: { uri },
+    };
+
+    return this.sendRequest(DocumentSymbolRequest.type, params, options);
+  }
+
+  async getWorkspaceSymbols(
+    query: string,
+    options?: RequestOptions
+  ): Promise<SymbolInformation[] | WorkspaceSymbol[] | null> {
+    const params: WorkspaceSymbolParams = { query };
+
+    return this.sendRequest(WorkspaceSymbolRequest.type, params, options);
+  }
+
+  async resolveWorkspaceSymbol(
+    symbol: WorkspaceSymbol,
+    options?: RequestOptions
+  ): Promise<WorkspaceSymbol> {
+    return this.sendRequest(WorkspaceSymbolResolveRequest.type, symbol, options);
+  }
+
+  supportsWorkspaceSymbolResolve(): boolean {
+    const provider = this.serverCapabilities?.capabilities.workspaceSymbolProvider;
+    return typeof provider === 'object' && provider.resolveProvider === true;
+  }
+
+  async prepareRename(
+    uri: string,
+    line: number,
+    character: number,
+    options?: RequestOptions
+  ): Promise<PrepareRenameResult | null> {
+    const params: PrepareRenameParams = {
+      textDocument: { uri },
+      position: { line, character },
+    };
+
+    return this.sendRequest(PrepareRenameRequest.type, params, options);
+  }
+
+  async rename(
+    uri: string,
+    line: number,
+    character: number,
+    newName: string,
+    options?: RequestOptions
+  ): Promise<WorkspaceEdit | null> {
+    const params: RenameParams = {
+      textDocument: { uri },
+      position: { line, character },
+      newName,
+    };
+
+    return this.sendRequest(RenameRequest.type, params, options);
+  }
+
+  async getCodeActions(
+    uri: string,
+    range: Range,
+    context: CodeActionContext = { diagnostics: [] },
+    options?: RequestOptions
+  ): Promise<(Command | CodeAction)[] | null> {
+    const params: CodeActionParams = {
+      textDocument: { uri },
+      range,
+      context,
+    };
+
+    return this.sendRequest(CodeActionRequest.type, params, options);
+  }
+
+  async resolveCodeAction(action: CodeAction, options?: RequestOptions): Promise<CodeAction> {
+    return this.sendRequest(CodeActionResolveRequest.type, action, options);
+  }
+
+  async executeCommand(
+    command: string,
+    args?: unknown[],
+    options?: RequestOptions
+  ): Promise<unknown> {
+    const params: ExecuteCommandParams = {
+      command,
+      arguments: args,
+    };
+
+    return this.sendRequest(ExecuteCommandRequest.type, params, options);
+  }
+
+  /**
+   * Apply a code action returned by getCodeActions().
+   *
+   * Actions without an edit are resolved first when the server supports
+   * codeAction/resolve. The edit is applied before the command is executed,
+   * as required by the protocol.
+   */
+  async applyCodeAction(action: Command | CodeAction, options?: RequestOptions): Promise<void> {
+    if (Command.is(action)) {
+      await this.executeCommand(action.command, action.arguments, options);
+      return;
     }
 
-    const params: DocumentSymbolParams = {
+    const resolved = !action.edit && this.supportsCodeActionResolve()
+      ? await this.resolveCodeAction(action, options)
+      : action;
+
+    if (resolved.edit) {
+      await this.applyWorkspaceEdit(resolved.edit);
+    }
+    if (resolved.command) {
+      await this.executeCommand(resolved.command.command, resolved.command.arguments, options);
+    }
+  }
+
+  private supportsCodeActionResolve(): boolean {
+    const provider = this.serverCapabilities?.capabilities.codeActionProvider;
+    return typeof provider === 'object' && provider.resolveProvider === true;
+  }
+
+  async formatDocument(
+    uri: string,
+    formattingOptions: FormattingOptions,
+    options?: RequestOptions
+  ): Promise<TextEdit[] | null> {
+    const params: DocumentFormattingParams = {
+      textDocument: { uri },
+      options: formattingOptions,
+    };
+
+    return this.sendRequest(DocumentFormattingRequest.type, params, options);
+  }
+
+  async formatRange(
+    uri: string,
+    range: Range,
+    formattingOptions: FormattingOptions,
+    options?: RequestOptions
+  ): Promise<TextEdit[] | null> {
+    const params: DocumentRangeFormattingParams = {
       textDocument: { uri },
+      range,
+      options: formattingOptions,
     };
 
-    return this.connection.sendRequest(DocumentSymbolRequest.type, params);
+    return this.sendRequest(DocumentRangeFormattingRequest.type, params, options);
+  }
+
+  async formatOnType(
+    uri: string,
+    line: number,
+    character: number,
+    ch: string,
+    formattingOptions: FormattingOptions,
+    options?: RequestOptions
+  ): Promise<TextEdit[] | null> {
+    const params: DocumentOnTypeFormattingParams = {
+      textDocument: { uri },
+      position: { line, character },
+      ch,
+      options: formattingOptions,
+    };
+
+    return this.sendRequest(DocumentOnTypeFormattingRequest.type, params, options);
+  }
+
+  async getSemanticTokens(uri: string, options?: RequestOptions): Promise<SemanticTokens | null> {
+    const params: SemanticTokensParams = {
+      textDocument: { uri },
+    };
+
+    return this.sendRequest(SemanticTokensRequest.type, params, options);
+  }
+
+  async getSemanticTokensDelta(
+    uri: string,
+    previousResultId: string,
+    options?: RequestOptions
+  ): Promise<SemanticTokens | SemanticTokensDelta | null> {
+    const params: SemanticTokensDeltaParams = {
+      textDocument: { uri },
+      previousResultId,
+    };
+
+    return this.sendRequest(SemanticTokensDeltaRequest.type, params, options);
+  }
+
+  async getSemanticTokensRange(
+    uri: string,
+    range: Range,
+    options?: RequestOptions
+  ): Promise<SemanticTokens | null> {
+    const params: SemanticTokensRangeParams = {
+      textDocument: { uri },
+      range,
+    };
+
+    return this.sendRequest(SemanticTokensRangeRequest.type, params, options);
+  }
+
+  private getSemanticTokensOptions(): SemanticTokensRegistrationOptions | undefined {
+    const provider = this.serverCapabilities?.capabilities.semanticTokensProvider;
+    if (provider) {
+      return provider as SemanticTokensRegistrationOptions;
+    }
+    const registration = [...this.registrations.values()]
+      .find((entry) => entry.method === SemanticTokensRegistrationType.method);
+    return registration?.registerOptions as SemanticTokensRegistrationOptions | undefined;
+  }
+
+  /**
+   * The semantic tokens legend the server advertised during initialization or
+   * registered dynamically, or undefined if it provides no semantic tokens.
+   */
+  getSemanticTokensLegend(): SemanticTokensLegend | undefined {
+    return this.getSemanticTokensOptions()?.legend;
+  }
+
+  /**
+   * Get the semantic tokens of a document (or a range of it) decoded with the
+   * server's legend. Full requests after the first one ask only for the changes
+   * when the server supports deltas.
+   */
+  async getDecodedSemanticTokens(
+    uri: string,
+    range?: Range,
+    options?: RequestOptions
+  ): Promise<DecodedSemanticToken[]> {
+    const legend = this.getSemanticTokensLegend();
+    if (!legend) {
+      throw new Error('Server does not provide semantic tokens');
+    }
+
+    const tokens = range
+      ? await this.getSemanticTokensRange(uri, range, options)
+      : await this.getFullSemanticTokens(uri, options);
+
+    return tokens ? decodeSemanticTokens(tokens.data, legend) : [];
+  }
+
+  private async getFullSemanticTokens(uri: string, options?: RequestOptions): Promise<SemanticTokens | null> {
+    const full = this.getSemanticTokensOptions()?.full;
+    const previous = this.semanticTokensResults.get(uri);
+
+    let tokens: SemanticTokens | null;
+    if (previous && typeof full === 'object' && full.delta) {
+      const result = await this.getSemanticTokensDelta(uri, previous.resultId, options);
+      tokens = result && 'edits' in result
+        ? { resultId: result.resultId, data: applySemanticTokensEdits(previous.data, result.edits) }
+        : result;
+    } else {
+      tokens = await this.getSemanticTokens(uri, options);
+    }
+
+    if (tokens?.resultId) {
+      this.semanticTokensResults.set(uri, { resultId: tokens.resultId, data: tokens.data });
+    } else {
+      this.semanticTokensResults.delete(uri);
+    }
+    return tokens;
+  }
+
+  async prepareCallHierarchy(
+    uri: string,
+    line: number,
+    character: number,
+    options?: RequestOptions
+  ): Promise<CallHierarchyItem[] | null> {
+    const params: CallHierarchyPrepareParams = {
+      textDocument: { uri },
+      position: { line, character },
+    };
+
+    return this.sendRequest(CallHierarchyPrepareRequest.type, params, options);
+  }
+
+  async getIncomingCalls(
+    item: CallHierarchyItem,
+    options?: RequestOptions
+  ): Promise<CallHierarchyIncomingCall[] | null> {
+    return this.sendRequest(CallHierarchyIncomingCallsRequest.type, { item }, options);
+  }
+
+  async getOutgoingCalls(
+    item: CallHierarchyItem,
+    options?: RequestOptions
+  ): Promise<CallHierarchyOutgoingCall[] | null> {
+    return this.sendRequest(CallHierarchyOutgoingCallsRequest.type, { item }, options);
+  }
+
+  async prepareTypeHierarchy(
+    uri: string,
+    line: number,
+    character: number,
+    options?: RequestOptions
+  ): Promise<TypeHierarchyItem[] | null> {
+    const params: TypeHierarchyPrepareParams = {
+      textDocument: { uri },
+      position: { line, character },
+    };
+
+    return this.sendRequest(TypeHierarchyPrepareRequest.type, params, options);
+  }
+
+  async getSupertypes(
+    item: TypeHierarchyItem,
+    options?: RequestOptions
+  ): Promise<TypeHierarchyItem[] | null> {
+    return this.sendRequest(TypeHierarchySupertypesRequest.type, { item }, options);
+  }
+
+  async getSubtypes(
+    item: TypeHierarchyItem,
+    options?: RequestOptions
+  ): Promise<TypeHierarchyItem[] | null> {
+    return this.sendRequest(TypeHierarchySubtypesRequest.type, { item }, options);
+  }
+
+  /**
+   * Apply a WorkspaceEdit (e.g. the result of rename()) to the files on disk.
+   *
+   * Documents that are open in this client are kept in sync: text edits are sent
+   * to the server as didChange notifications, and renamed or deleted documents
+   * are closed (and reopened under their new URI when renamed).
+   * Operations are applied in order and stop at the first failure, including a
+   * text edit computed for another version of an open document.
+   */
+  async applyWorkspaceEdit(edit: WorkspaceEdit): Promise<void> {
+    if (!this.connection) {
+      throw new Error('Client not started');
+    }
+
+    // documentChanges takes precedence over changes when both are present
+    if (edit.documentChanges) {
+      for (const change of edit.documentChanges) {
+        if (TextDocumentEdit.is(change)) {
+          checkDocumentVersion(change.textDocument, this.openDocuments.get(change.textDocument.uri)?.version);
+          await this.applyTextEditsToDocument(change.textDocument.uri, change.edits);
+        } else if (CreateFile.is(change)) {
+          await this.createDocument(change);
+        } else if (RenameFile.is(change)) {
+          await this.renameDocument(change);
+        } else if (DeleteFile.is(change)) {
+          await this.deleteDocument(change);
+        }
+      }
+    } else if (edit.changes) {
+      for (const [uri, edits] of Object.entries(edit.changes)) {
+        await this.applyTextEditsToDocument(uri, edits);
+      }
+    }
+  }
+
+  private async applyTextEditsToDocument(uri: string, edits: TextEdit[]): Promise<void> {
+    const filePath = uriToPath(uri);
+    const doc = this.openDocuments.get(uri);
+
+    if (doc) {
+      await this.applyEdits(uri, edits);
+      fs.writeFileSync(filePath, doc.text);
+    } else {
+      fs.writeFileSync(filePath, applyTextEdits(fs.readFileSync(filePath, 'utf-8'), edits));
+    }
+  }
+
+  private async createDocument(change: CreateFile): Promise<void> {
+    const created = createFileOnDisk(change.uri, change.options);
+
+    // Overwriting an open document empties it
+    if (created && this.openDocuments.has(change.uri)) {
+      await this.changeDocument(change.uri, '');
+    }
+  }
+
+  private async renameDocument(change: RenameFile): Promise<void> {
+    // Renaming a directory moves every open document under it
+    const directoryPrefix = change.oldUri.endsWith('/') ? change.oldUri : `${change.oldUri}/`;
+    const docs = [...this.openDocuments.values()]
+      .filter((doc) => doc.uri === change.oldUri || doc.uri.startsWith(directoryPrefix));
+    const renamed = renameFileOnDisk(change.oldUri, change.newUri, change.options);
+    if (!renamed) {
+      return;
+    }
+
+    for (const doc of docs) {
+      await this.closeDocument(doc.uri);
+      await this.openDocument(change.newUri + doc.uri.slice(change.oldUri.length), doc.languageId, doc.text);
+    }
+  }
+
+  private async deleteDocument(change: DeleteFile): Promise<void> {
+    deleteFileOnDisk(change.uri, change.options);
+
+    // A recursive delete may remove a directory containing open documents
+    const directoryPrefix = change.uri.endsWith('/') ? change.uri : `${change.uri}/`;
+    for (const uri of [...this.openDocuments.keys()]) {
+      if (uri === change.uri || uri.startsWith(directoryPrefix)) {
+        await this.closeDocument(uri);
+      }
+    }
+  }
+
+  getOpenDocument(uri: string): DocumentInfo | undefined {
+    return this.openDocuments.get(uri);
+  }
+
+  getOpenDocuments(): DocumentInfo[] {
+    return [...this.openDocuments.values()];
   }
 
   getServerCapabilities(): InitializeResult | null {
@@ -437,12 +2068,27 @@ export class LSPClient {
   }
 
   async stop(): Promise<void> {
+    this.stopping = true;
+
     if (!this.connection) {
+      // The server crashed: drop the pending restart and the replayed documents
+      if (this.started) {
+        await this.cleanup();
+      }
+      return;
+    }
+
+    // A server we attached to may be shared with other clients: just disconnect
+    if (this.options.attach) {
+      await this.cleanup();
       return;
     }
 
     try {
-      await this.connection.sendRequest(ShutdownRequest.type);
+      const connection = this.connection;
+      await this.withCancellation(ShutdownRequest.method, {}, (token) =>
+        connection.sendRequest(ShutdownRequest.type, token)
+      );
     } catch (error) {
       this.options.logger?.info(`Shutdown request failed (server may have already exited): ${error}`);
     }
@@ -451,7 +2097,7 @@ export class LSPClient {
 
     if (!this.socket) {
       try {
-        this.connection.sendNotification(ExitNotification.type);
+        await this.connection.sendNotification(ExitNotification.type);
       } catch (error) {
         this.options.logger?.info(`Exit notification failed (server may have already closed): ${error}`);
       }
@@ -461,6 +2107,26 @@ export class LSPClient {
   }
 
   private async cleanup(): Promise<void> {
+    if (this.restartTimer) {
+      clearTimeout(this.restartTimer);
+      this.restartTimer = null;
+    }
+    this.clearStableTimer();
+    this.restartAttempts = 0;
+
+    this.disposeTransport();
+
+    if (this.stopping && this.started) {
+      this.emitLifecycle({ type: 'stopped' });
+    }
+
+    this.started = false;
+    this.serverCapabilities = null;
+    this.openDocuments.clear();
+    this.eventHandlers.clear();
+  }
+
+  private disposeTransport(): void {
     if (this.socket) {
       try { this.socket.destroy(); } catch (e) {
         this.options.logger?.info(`Socket cleanup: ${e}`);
@@ -468,6 +2134,13 @@ export class LSPClient {
       this.socket = null;
     }
 
+    if (this.webSocket) {
+      try { this.webSocket.close(); } catch (e) {
+        this.options.logger?.info(`WebSocket cleanup: ${e}`);
+      }
+      this.webSocket = null;
+    }
+
     if (this.connection) {
       try { this.connection.dispose(); } catch (e) {
         this.options.logger?.info(`Connection cleanup: ${e}`);
@@ -482,8 +2155,11 @@ export class LSPClient {
       this.process = null;
     }
 
-    this.serverCapabilities = null;
-    this.openDocuments.clear();
-    this.diagnosticsHandlers = [];
+    // Progress of a server that is gone never ends
+    this.activeProgress.clear();
+    this.progressSubscriptions.clear();
+    // Registrations and result ids belong to the server that is gone
+    this.registrations.clear();
+    this.semanticTokensResults.clear();
   }
 }
@@ -1,10 +1,11 @@
 import { LSPClient } from '../lsp-client';
+import { LanguageDefinition } from '../language-registry';
 import { Logger } from 'vscode-languageserver-protocol';
 import { findFilesByExtension } from './find-files';
 
 const SERVER_COMMAND = 'bash-language-server';
 const DEFAULT_ARGS = ['start'];
-const BASH_EXTENSIONS = ['.sh', '.bash'];
+export const BASH_EXTENSIONS = ['.sh', '.bash'];
 const EXCLUDED_DIRS = ['node_modules', 'dist', 'build', 'out', 'vendor'];
 
 export interface BashLspServerOptions {
@@ -35,6 +36,17 @@ export function createBashLspClient(options: BashLspServerOptions): LSPClient {
   });
 }
 
+export const BASH_LANGUAGE: LanguageDefinition<BashLspServerOptions> = {
+  id: 'bash',
+  name: 'Bash',
+  extensions: BASH_EXTENSIONS,
+  excludedDirs: EXCLUDED_DIRS,
+  optionsSchema: { type: 'object', properties: {} },
+  installHint: 'npm install -g bash-language-server',
+  requirements: () => [{ kind: 'executable', target: SERVER_COMMAND, versionArgs: ['--version'] }],
+  createClient: createBashLspClient,
+};
+
 /**
  * Recursively find all Bash script files in a directory.
  */
@@ -1,9 +1,10 @@
 import { LSPClient } from '../lsp-client';
+import { LanguageDefinition } from '../language-registry';
 import { Logger } from 'vscode-languageserver-protocol';
 import { findFilesByExtension } from './find-files';
 
 const SERVER_COMMAND = 'clojure-lsp';
-const CLOJURE_EXTENSIONS = ['.clj', '.cljs', '.cljc', '.edn'];
+export const CLOJURE_EXTENSIONS = ['.clj', '.cljs', '.cljc', '.edn'];
 const EXCLUDED_DIRS = ['node_modules', 'dist', 'build', 'out', 'target', '.cpcache'];
 
 export interface ClojureLspServerOptions {
@@ -34,6 +35,17 @@ export function createClojureLspClient(options: ClojureLspServerOptions): LSPCli
   });
 }
 
+export const CLOJURE_LANGUAGE: LanguageDefinition<ClojureLspServerOptions> = {
+  id: 'clojure',
+  name: 'Clojure',
+  extensions: CLOJURE_EXTENSIONS,
+  excludedDirs: EXCLUDED_DIRS,
+  optionsSchema: { type: 'object', properties: {} },
+  installHint: 'brew install clojure-lsp/brew/clojure-lsp-native',
+  requirements: () => [{ kind: 'executable', target: SERVER_COMMAND, versionArgs: ['--version'] }],
+  createClient: createClojureLspClient,
+};
+
 /**
  * Recursively find all Clojure files in a directory.
  */
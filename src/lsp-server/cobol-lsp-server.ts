@@ -1,4 +1,5 @@
 import { LSPClient } from '../lsp-client';
+import { LanguageDefinition } from '../language-registry';
 import { Logger } from 'vscode-languageserver-protocol';
 import * as fs from 'fs';
 import { findFilesByExtension } from './find-files';
@@ -6,7 +7,7 @@ import { findFilesByExtension } from './find-files';
 const SERVER_COMMAND = 'java';
 const ALLOWED_HOSTS = ['localhost', '127.0.0.1', '::1'];
 const DEFAULT_PORT = 1044;
-const COBOL_EXTENSIONS = ['.cob', '.cbl', '.cobol', '.CBL', '.COB', '.COBOL'];
+export const COBOL_EXTENSIONS = ['.cob', '.cbl', '.cobol', '.CBL', '.COB', '.COBOL'];
 const EXCLUDED_DIRS = ['node_modules', 'target', 'build', 'dist'];
 
 export interface CobolLspServerOptions {
@@ -20,6 +21,8 @@ export interface CobolLspServerOptions {
   port?: number;
   /** Socket host (default: localhost) */
   host?: string;
+  /** How long to keep retrying the socket connection while the JAR starts, in milliseconds (default: 10000) */
+  connectTimeout?: number;
 }
 
 /**
@@ -30,7 +33,7 @@ export interface CobolLspServerOptions {
  * @see https://github.com/eclipse-che4z/che-che4z-lsp-for-cobol
  */
 export function createCobolLspClient(options: CobolLspServerOptions): LSPClient {
-  const { serverJar, rootUri, logger, port = DEFAULT_PORT, host = 'localhost' } = options;
+  const { serverJar, rootUri, logger, port = DEFAULT_PORT, host = 'localhost', connectTimeout } = options;
   if (!ALLOWED_HOSTS.includes(host)) {
     throw new Error(`Socket host must be one of ${ALLOWED_HOSTS.join(', ')}. Got: ${host}`);
   }
@@ -44,10 +47,33 @@ export function createCobolLspClient(options: CobolLspServerOptions): LSPClient
     serverArgs: ['-jar', serverJar],
     rootUri,
     logger,
-    socket: { port, host },
+    socket: { port, host, connectTimeout },
   });
 }
 
+export const COBOL_LANGUAGE: LanguageDefinition<CobolLspServerOptions> = {
+  id: 'cobol',
+  name: 'COBOL',
+  extensions: COBOL_EXTENSIONS,
+  excludedDirs: EXCLUDED_DIRS,
+  optionsSchema: {
+    type: 'object',
+    properties: {
+      serverJar: { type: 'string', description: 'Path to the Che4z COBOL LSP server JAR file' },
+      port: { type: 'number', description: 'Socket port (default: 1044)' },
+      host: { type: 'string', description: 'Socket host (default: localhost)' },
+      connectTimeout: { type: 'number', description: 'How long to keep retrying the socket connection in milliseconds (default: 10000)' },
+    },
+    required: ['serverJar'],
+  },
+  installHint: 'Install a Java runtime and download the server JAR from https://github.com/eclipse-che4z/che-che4z-lsp-for-cobol',
+  requirements: ({ serverJar }) => [
+    { kind: 'executable', target: SERVER_COMMAND },
+    { kind: 'jar', target: serverJar, option: 'serverJar' },
+  ],
+  createClient: createCobolLspClient,
+};
+
 /**
  * Recursively find all COBOL files in a directory.
  */
@@ -1,10 +1,11 @@
 import { LSPClient } from '../lsp-client';
+import { LanguageDefinition } from '../language-registry';
 import { Logger } from 'vscode-languageserver-protocol';
 import { findFilesByExtension } from './find-files';
 
 const SERVER_COMMAND = 'clangd';
 const DEFAULT_ARGS = ['--log=error'];
-const CPP_EXTENSIONS = ['.cpp', '.cc', '.cxx', '.c', '.hpp', '.h', '.hxx'];
+export const CPP_EXTENSIONS = ['.cpp', '.cc', '.cxx', '.c', '.hpp', '.h', '.hxx'];
 const EXCLUDED_DIRS = ['build', 'cmake-build-debug', 'cmake-build-release', 'node_modules', 'third_party'];
 
 export interface CppLspServerOptions {
@@ -40,6 +41,17 @@ export function createCppLspClient(options: CppLspServerOptions): LSPClient {
   });
 }
 
+export const CPP_LANGUAGE: LanguageDefinition<CppLspServerOptions> = {
+  id: 'cpp',
+  name: 'C/C++',
+  extensions: CPP_EXTENSIONS,
+  excludedDirs: EXCLUDED_DIRS,
+  optionsSchema: { type: 'object', properties: {} },
+  installHint: 'brew install llvm, apt install clangd, or see https://clangd.llvm.org/installation',
+  requirements: () => [{ kind: 'executable', target: SERVER_COMMAND, versionArgs: ['--version'] }],
+  createClient: createCppLspClient,
+};
+
 /**
  * Recursively find all C/C++ files in a directory.
  */
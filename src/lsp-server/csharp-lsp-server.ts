@@ -1,10 +1,11 @@
 import { LSPClient } from '../lsp-client';
+import { LanguageDefinition } from '../language-registry';
 import { Logger } from 'vscode-languageserver-protocol';
 import { findFilesByExtension } from './find-files';
 
 const SERVER_COMMAND = 'csharp-ls';
 const DEFAULT_LOG_LEVEL = 'INFO';
-const CSHARP_EXTENSIONS = ['.cs'];
+export const CSHARP_EXTENSIONS = ['.cs'];
 const EXCLUDED_DIRS = ['bin', 'obj'];
 
 export interface CsharpLspServerOptions {
@@ -39,6 +40,24 @@ export function createCsharpLspClient(options: CsharpLspServerOptions): LSPClien
   });
 }
 
+export const CSHARP_LANGUAGE: LanguageDefinition<CsharpLspServerOptions> = {
+  id: 'csharp',
+  name: 'C#',
+  extensions: CSHARP_EXTENSIONS,
+  excludedDirs: EXCLUDED_DIRS,
+  optionsSchema: {
+    type: 'object',
+    properties: {
+      solutionPath: { type: 'string', description: 'Path to the .sln solution file' },
+      logLevel: { type: 'string', description: 'Log level (default: \'INFO\')' },
+    },
+    required: ['solutionPath'],
+  },
+  installHint: 'dotnet tool install --global csharp-ls',
+  requirements: () => [{ kind: 'executable', target: SERVER_COMMAND, versionArgs: ['--version'] }],
+  createClient: createCsharpLspClient,
+};
+
 /**
  * Recursively find all C# files in a directory.
  */
@@ -1,4 +1,5 @@
 import { LSPClient } from '../lsp-client';
+import { LanguageDefinition } from '../language-registry';
 import { Logger } from 'vscode-languageserver-protocol';
 import * as path from 'path';
 import * as fs from 'fs';
@@ -6,7 +7,7 @@ import * as os from 'os';
 import { findFilesByExtension } from './find-files';
 
 const DEFAULT_SERVER_PATH = 'gopls';
-const GO_EXTENSIONS = ['.go'];
+export const GO_EXTENSIONS = ['.go'];
 const EXCLUDED_DIRS = ['node_modules', 'dist', 'build', 'out', 'vendor'];
 
 export interface GoLspServerOptions {
@@ -20,6 +21,10 @@ export interface GoLspServerOptions {
   serverPath?: string;
 }
 
+function resolveServerPath(serverPath?: string): string {
+  return serverPath || path.join(os.homedir(), 'go', 'bin', DEFAULT_SERVER_PATH);
+}
+
 /**
  * Creates an LSPClient configured for gopls.
  *
@@ -30,7 +35,7 @@ export interface GoLspServerOptions {
  */
 export function createGoLspClient(options: GoLspServerOptions): LSPClient {
   const { rootUri, logger, serverArgs = [] } = options;
-  const serverPath = options.serverPath || path.join(os.homedir(), 'go', 'bin', DEFAULT_SERVER_PATH);
+  const serverPath = resolveServerPath(options.serverPath);
 
   if (!fs.existsSync(serverPath)) {
     throw new Error(`gopls not found at: ${serverPath}. Install with: go install golang.org/x/tools/gopls@latest`);
@@ -44,6 +49,24 @@ export function createGoLspClient(options: GoLspServerOptions): LSPClient {
   });
 }
 
+export const GO_LANGUAGE: LanguageDefinition<GoLspServerOptions> = {
+  id: 'go',
+  name: 'Go',
+  extensions: GO_EXTENSIONS,
+  excludedDirs: EXCLUDED_DIRS,
+  optionsSchema: {
+    type: 'object',
+    properties: {
+      serverPath: { type: 'string', description: 'Path to gopls executable (default: ~/go/bin/gopls)' },
+    },
+  },
+  installHint: 'go install golang.org/x/tools/gopls@latest',
+  requirements: ({ serverPath }) => [
+    { kind: 'executable', target: resolveServerPath(serverPath), option: 'serverPath', versionArgs: ['version'] },
+  ],
+  createClient: createGoLspClient,
+};
+
 /**
  * Recursively find all Go files in a directory.
  */
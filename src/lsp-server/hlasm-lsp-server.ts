@@ -1,10 +1,11 @@
 import { LSPClient } from '../lsp-client';
+import { LanguageDefinition } from '../language-registry';
 import { Logger } from 'vscode-languageserver-protocol';
 import * as fs from 'fs';
 import { findFilesByExtension } from './find-files';
 
 const SERVER_COMMAND = 'poetry';
-const HLASM_EXTENSIONS = ['.hlasm', '.asm', '.mac', '.copy', '.s'];
+export const HLASM_EXTENSIONS = ['.hlasm', '.asm', '.mac', '.copy', '.s'];
 const EXCLUDED_DIRS = ['node_modules', 'dist', 'build', 'out', '.venv', 'venv', '__pycache__'];
 
 export interface HlasmLspServerOptions {
@@ -40,6 +41,23 @@ export function createHlasmLspClient(options: HlasmLspServerOptions): LSPClient
   });
 }
 
+export const HLASM_LANGUAGE: LanguageDefinition<HlasmLspServerOptions> = {
+  id: 'hlasm',
+  name: 'HLASM',
+  extensions: HLASM_EXTENSIONS,
+  excludedDirs: EXCLUDED_DIRS,
+  optionsSchema: {
+    type: 'object',
+    properties: {
+      serverDir: { type: 'string', description: 'Directory containing the hlasm-lsp installation (with poetry)' },
+    },
+    required: ['serverDir'],
+  },
+  installHint: 'cd <serverDir> && poetry install',
+  requirements: ({ serverDir }) => [{ kind: 'poetry', target: serverDir, option: 'serverDir' }],
+  createClient: createHlasmLspClient,
+};
+
 /**
  * Recursively find all HLASM files in a directory.
  */
@@ -0,0 +1,49 @@
+import { LanguageDefinition, LanguageRegistry } from '../language-registry';
+import { TYPESCRIPT_LANGUAGE } from './typescript-lsp-server';
+import { PYTHON_LANGUAGE } from './python-lsp-server';
+import { JAVA_LANGUAGE } from './java-lsp-server';
+import { RUST_LANGUAGE } from './rust-lsp-server';
+import { RUBY_LANGUAGE } from './ruby-lsp-server';
+import { PERL_LANGUAGE } from './perl-lsp-server';
+import { CPP_LANGUAGE } from './cpp-lsp-server';
+import { CSHARP_LANGUAGE } from './csharp-lsp-server';
+import { SQL_LANGUAGE } from './sql-lsp-server';
+import { COBOL_LANGUAGE } from './cobol-lsp-server';
+import { BASH_LANGUAGE } from './bash-lsp-server';
+import { TERRAFORM_LANGUAGE } from './terraform-lsp-server';
+import { CLOJURE_LANGUAGE } from './clojure-lsp-server';
+import { KOTLIN_LANGUAGE } from './kotlin-lsp-server';
+import { GO_LANGUAGE } from './go-lsp-server';
+import { PHP_LANGUAGE } from './php-lsp-server';
+import { PICKBASIC_LANGUAGE } from './pickbasic-lsp-server';
+import { VAX_PASCAL_LANGUAGE } from './vax-pascal-lsp-server';
+import { HLASM_LANGUAGE } from './hlasm-lsp-server';
+
+/** The language servers this package ships with */
+export const BUILTIN_LANGUAGES: LanguageDefinition[] = [
+  TYPESCRIPT_LANGUAGE,
+  PYTHON_LANGUAGE,
+  JAVA_LANGUAGE,
+  RUST_LANGUAGE,
+  RUBY_LANGUAGE,
+  PERL_LANGUAGE,
+  CPP_LANGUAGE,
+  CSHARP_LANGUAGE,
+  SQL_LANGUAGE,
+  COBOL_LANGUAGE,
+  BASH_LANGUAGE,
+  TERRAFORM_LANGUAGE,
+  CLOJURE_LANGUAGE,
+  KOTLIN_LANGUAGE,
+  GO_LANGUAGE,
+  PHP_LANGUAGE,
+  PICKBASIC_LANGUAGE,
+  VAX_PASCAL_LANGUAGE,
+  HLASM_LANGUAGE,
+];
+
+/**
+ * Registry of the built-in languages, used by the bridge unless it is given
+ * another one. Register your own servers here to make them available to it.
+ */
+export const languageRegistry = new LanguageRegistry(BUILTIN_LANGUAGES);
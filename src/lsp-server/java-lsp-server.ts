@@ -1,9 +1,10 @@
 import { LSPClient } from '../lsp-client';
+import { LanguageDefinition } from '../language-registry';
 import { Logger } from 'vscode-languageserver-protocol';
 import { findFilesByExtension } from './find-files';
 
 const SERVER_COMMAND = 'jdtls';
-const JAVA_EXTENSIONS = ['.java'];
+export const JAVA_EXTENSIONS = ['.java'];
 const EXCLUDED_DIRS = ['node_modules', 'target', 'build', 'bin', '.gradle'];
 
 export interface JavaLspServerOptions {
@@ -35,6 +36,17 @@ export function createJavaLspClient(options: JavaLspServerOptions): LSPClient {
   });
 }
 
+export const JAVA_LANGUAGE: LanguageDefinition<JavaLspServerOptions> = {
+  id: 'java',
+  name: 'Java',
+  extensions: JAVA_EXTENSIONS,
+  excludedDirs: EXCLUDED_DIRS,
+  optionsSchema: { type: 'object', properties: {} },
+  installHint: 'brew install jdtls, or download from https://download.eclipse.org/jdtls/snapshots/',
+  requirements: () => [{ kind: 'executable', target: SERVER_COMMAND }],
+  createClient: createJavaLspClient,
+};
+
 /**
  * Recursively find all Java files in a directory.
  */
@@ -1,10 +1,11 @@
 import { LSPClient } from '../lsp-client';
+import { LanguageDefinition } from '../language-registry';
 import { Logger } from 'vscode-languageserver-protocol';
 import { findFilesByExtension } from './find-files';
 
 const SERVER_COMMAND = 'kotlin-lsp';
 const DEFAULT_ARGS = ['--stdio'];
-const KOTLIN_EXTENSIONS = ['.kt', '.kts'];
+export const KOTLIN_EXTENSIONS = ['.kt', '.kts'];
 const EXCLUDED_DIRS = ['node_modules', 'dist', 'build', 'out', 'target', '.gradle'];
 
 export interface KotlinLspServerOptions {
@@ -35,6 +36,17 @@ export function createKotlinLspClient(options: KotlinLspServerOptions): LSPClien
   });
 }
 
+export const KOTLIN_LANGUAGE: LanguageDefinition<KotlinLspServerOptions> = {
+  id: 'kotlin',
+  name: 'Kotlin',
+  extensions: KOTLIN_EXTENSIONS,
+  excludedDirs: EXCLUDED_DIRS,
+  optionsSchema: { type: 'object', properties: {} },
+  installHint: 'brew install kotlin-lsp',
+  requirements: () => [{ kind: 'executable', target: SERVER_COMMAND }],
+  createClient: createKotlinLspClient,
+};
+
 /**
  * Recursively find all Kotlin files in a directory.
  */
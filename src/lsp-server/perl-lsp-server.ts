@@ -1,10 +1,11 @@
 import { LSPClient } from '../lsp-client';
+import { LanguageDefinition } from '../language-registry';
 import { Logger } from 'vscode-languageserver-protocol';
 import * as fs from 'fs';
 import { findFilesByExtension } from './find-files';
 
 const DEFAULT_ARGS = ['--stdio'];
-const PERL_EXTENSIONS = ['.pl', '.pm', '.t'];
+export const PERL_EXTENSIONS = ['.pl', '.pm', '.t'];
 const EXCLUDED_DIRS = ['node_modules', 'blib', 'local'];
 
 export interface PerlLspServerOptions {
@@ -41,6 +42,23 @@ export function createPerlLspClient(options: PerlLspServerOptions): LSPClient {
   });
 }
 
+export const PERL_LANGUAGE: LanguageDefinition<PerlLspServerOptions> = {
+  id: 'perl',
+  name: 'Perl',
+  extensions: PERL_EXTENSIONS,
+  excludedDirs: EXCLUDED_DIRS,
+  optionsSchema: {
+    type: 'object',
+    properties: {
+      serverPath: { type: 'string', description: 'Path to the PerlNavigator executable' },
+    },
+    required: ['serverPath'],
+  },
+  installHint: 'Download PerlNavigator from https://github.com/bscan/PerlNavigator/releases',
+  requirements: ({ serverPath }) => [{ kind: 'executable', target: serverPath, option: 'serverPath' }],
+  createClient: createPerlLspClient,
+};
+
 /**
  * Recursively find all Perl files in a directory.
  */
@@ -1,10 +1,11 @@
 import { LSPClient } from '../lsp-client';
+import { LanguageDefinition } from '../language-registry';
 import { Logger } from 'vscode-languageserver-protocol';
 import { findFilesByExtension } from './find-files';
 
 const SERVER_COMMAND = 'intelephense';
 const DEFAULT_ARGS = ['--stdio'];
-const PHP_EXTENSIONS = ['.php', '.phtml'];
+export const PHP_EXTENSIONS = ['.php', '.phtml'];
 const EXCLUDED_DIRS = ['node_modules', 'dist', 'build', 'out', 'vendor'];
 
 export interface PhpLspServerOptions {
@@ -35,6 +36,17 @@ export function createPhpLspClient(options: PhpLspServerOptions): LSPClient {
   });
 }
 
+export const PHP_LANGUAGE: LanguageDefinition<PhpLspServerOptions> = {
+  id: 'php',
+  name: 'PHP',
+  extensions: PHP_EXTENSIONS,
+  excludedDirs: EXCLUDED_DIRS,
+  optionsSchema: { type: 'object', properties: {} },
+  installHint: 'npm install -g intelephense',
+  requirements: () => [{ kind: 'executable', target: SERVER_COMMAND }],
+  createClient: createPhpLspClient,
+};
+
 /**
  * Recursively find all PHP files in a directory.
  */
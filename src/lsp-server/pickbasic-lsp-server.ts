@@ -1,10 +1,11 @@
 import { LSPClient } from '../lsp-client';
+import { LanguageDefinition } from '../language-registry';
 import { Logger } from 'vscode-languageserver-protocol';
 import * as fs from 'fs';
 import { findFilesByExtension } from './find-files';
 
 const SERVER_COMMAND = 'poetry';
-const PICKBASIC_EXTENSIONS = ['.bp', '.b', '.bas', '.basic'];
+export const PICKBASIC_EXTENSIONS = ['.bp', '.b', '.bas', '.basic'];
 const EXCLUDED_DIRS = ['node_modules', 'dist', 'build', 'out', '.venv', 'venv', '__pycache__'];
 
 export interface PickbasicLspServerOptions {
@@ -42,6 +43,23 @@ export function createPickbasicLspClient(options: PickbasicLspServerOptions): LS
   });
 }
 
+export const PICKBASIC_LANGUAGE: LanguageDefinition<PickbasicLspServerOptions> = {
+  id: 'pickbasic',
+  name: 'PickBASIC',
+  extensions: PICKBASIC_EXTENSIONS,
+  excludedDirs: EXCLUDED_DIRS,
+  optionsSchema: {
+    type: 'object',
+    properties: {
+      serverDir: { type: 'string', description: 'Directory containing the pickbasic-lsp installation (with poetry)' },
+    },
+    required: ['serverDir'],
+  },
+  installHint: 'cd <serverDir> && poetry install',
+  requirements: ({ serverDir }) => [{ kind: 'poetry', target: serverDir, option: 'serverDir' }],
+  createClient: createPickbasicLspClient,
+};
+
 /**
  * Recursively find all Pick BASIC files in a directory.
  */
@@ -1,11 +1,12 @@
 import { LSPClient } from '../lsp-client';
+import { LanguageDefinition } from '../language-registry';
 import { Logger } from 'vscode-languageserver-protocol';
 import * as fs from 'fs';
 import { findFilesByExtension } from './find-files';
 
 const SERVER_COMMAND = 'poetry';
 const DEFAULT_ARGS = ['-v'];
-const PYTHON_EXTENSIONS = ['.py'];
+export const PYTHON_EXTENSIONS = ['.py'];
 const EXCLUDED_DIRS = ['node_modules', 'venv', '.venv', '__pycache__', 'build', 'dist'];
 
 export interface PythonLspServerOptions {
@@ -43,6 +44,25 @@ export function createPythonLspClient(options: PythonLspServerOptions): LSPClien
   });
 }
 
+export const PYTHON_LANGUAGE: LanguageDefinition<PythonLspServerOptions> = {
+  id: 'python',
+  name: 'Python',
+  extensions: PYTHON_EXTENSIONS,
+  excludedDirs: EXCLUDED_DIRS,
+  optionsSchema: {
+    type: 'object',
+    properties: {
+      serverDir: { type: 'string', description: 'Directory containing the pylsp installation (with poetry)' },
+    },
+    required: ['serverDir'],
+  },
+  installHint: 'cd <serverDir> && poetry add python-lsp-server',
+  requirements: ({ serverDir }) => [
+    { kind: 'poetry', target: serverDir, option: 'serverDir', versionArgs: ['pylsp', '--version'] },
+  ],
+  createClient: createPythonLspClient,
+};
+
 /**
  * Recursively find all Python files in a directory.
  */
@@ -1,11 +1,12 @@
 import { LSPClient } from '../lsp-client';
+import { LanguageDefinition } from '../language-registry';
 import { Logger } from 'vscode-languageserver-protocol';
 import { fileURLToPath } from 'url';
 import { findFilesByExtension } from './find-files';
 
 const SERVER_COMMAND = 'solargraph';
 const DEFAULT_ARGS = ['stdio'];
-const RUBY_EXTENSIONS = ['.rb'];
+export const RUBY_EXTENSIONS = ['.rb'];
 const EXCLUDED_DIRS = ['node_modules', 'vendor', 'tmp', 'log'];
 
 export interface RubyLspServerOptions {
@@ -41,6 +42,22 @@ export function createRubyLspClient(options: RubyLspServerOptions): LSPClient {
   });
 }
 
+export const RUBY_LANGUAGE: LanguageDefinition<RubyLspServerOptions> = {
+  id: 'ruby',
+  name: 'Ruby',
+  extensions: RUBY_EXTENSIONS,
+  excludedDirs: EXCLUDED_DIRS,
+  optionsSchema: {
+    type: 'object',
+    properties: {
+      cwd: { type: 'string', description: 'Working directory for the server process (defaults to project directory)' },
+    },
+  },
+  installHint: 'gem install solargraph',
+  requirements: () => [{ kind: 'executable', target: SERVER_COMMAND, versionArgs: ['--version'] }],
+  createClient: createRubyLspClient,
+};
+
 /**
  * Recursively find all Ruby files in a directory.
  */
@@ -1,9 +1,10 @@
 import { LSPClient } from '../lsp-client';
+import { LanguageDefinition } from '../language-registry';
 import { Logger } from 'vscode-languageserver-protocol';
 import { findFilesByExtension } from './find-files';
 
 const SERVER_COMMAND = 'rust-analyzer';
-const RUST_EXTENSIONS = ['.rs'];
+export const RUST_EXTENSIONS = ['.rs'];
 const EXCLUDED_DIRS = ['target', 'node_modules', 'vendor'];
 
 export interface RustLspServerOptions {
@@ -36,6 +37,17 @@ export function createRustLspClient(options: RustLspServerOptions): LSPClient {
   });
 }
 
+export const RUST_LANGUAGE: LanguageDefinition<RustLspServerOptions> = {
+  id: 'rust',
+  name: 'Rust',
+  extensions: RUST_EXTENSIONS,
+  excludedDirs: EXCLUDED_DIRS,
+  optionsSchema: { type: 'object', properties: {} },
+  installHint: 'rustup component add rust-analyzer, or brew install rust-analyzer',
+  requirements: () => [{ kind: 'executable', target: SERVER_COMMAND, versionArgs: ['--version'] }],
+  createClient: createRustLspClient,
+};
+
 /**
  * Recursively find all Rust files in a directory.
  */
@@ -1,8 +1,11 @@
 import { LSPClient } from '../lsp-client';
+import { LanguageDefinition } from '../language-registry';
 import { Logger } from 'vscode-languageserver-protocol';
 import * as fs from 'fs';
 
 const DEFAULT_ARGS = ['up', '--method', 'stdio'];
+export const SQL_EXTENSIONS = ['.sql'];
+const EXCLUDED_DIRS = ['node_modules', 'dist', 'build', 'out'];
 
 export interface SqlLspServerOptions {
   /** Path to the sql-language-server executable */
@@ -37,3 +40,22 @@ export function createSqlLspClient(options: SqlLspServerOptions): LSPClient {
     logger,
   });
 }
+
+export const SQL_LANGUAGE: LanguageDefinition<SqlLspServerOptions> = {
+  id: 'sql',
+  name: 'SQL',
+  extensions: SQL_EXTENSIONS,
+  excludedDirs: EXCLUDED_DIRS,
+  optionsSchema: {
+    type: 'object',
+    properties: {
+      serverPath: { type: 'string', description: 'Path to the sql-language-server executable' },
+    },
+    required: ['serverPath'],
+  },
+  installHint: 'npm install sql-language-server',
+  requirements: ({ serverPath }) => [
+    { kind: 'executable', target: serverPath, option: 'serverPath', versionArgs: ['--version'] },
+  ],
+  createClient: createSqlLspClient,
+};
@@ -1,10 +1,11 @@
 import { LSPClient } from '../lsp-client';
+import { LanguageDefinition } from '../language-registry';
 import { Logger } from 'vscode-languageserver-protocol';
 import { findFilesByExtension } from './find-files';
 
 const SERVER_COMMAND = 'terraform-ls';
 const DEFAULT_ARGS = ['serve'];
-const TERRAFORM_EXTENSIONS = ['.tf', '.tfvars'];
+export const TERRAFORM_EXTENSIONS = ['.tf', '.tfvars'];
 const EXCLUDED_DIRS = ['node_modules', 'dist', 'build', 'out', '.terraform'];
 
 export interface TerraformLspServerOptions {
@@ -35,6 +36,17 @@ export function createTerraformLspClient(options: TerraformLspServerOptions): LS
   });
 }
 
+export const TERRAFORM_LANGUAGE: LanguageDefinition<TerraformLspServerOptions> = {
+  id: 'terraform',
+  name: 'Terraform',
+  extensions: TERRAFORM_EXTENSIONS,
+  excludedDirs: EXCLUDED_DIRS,
+  optionsSchema: { type: 'object', properties: {} },
+  installHint: 'brew install hashicorp/tap/terraform-ls',
+  requirements: () => [{ kind: 'executable', target: SERVER_COMMAND, versionArgs: ['version'] }],
+  createClient: createTerraformLspClient,
+};
+
 /**
  * Recursively find all Terraform files in a directory.
  */
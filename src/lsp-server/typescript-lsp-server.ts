@@ -1,10 +1,11 @@
 import { LSPClient } from '../lsp-client';
+import { LanguageDefinition } from '../language-registry';
 import { Logger } from 'vscode-languageserver-protocol';
 import { findFilesByExtension } from './find-files';
 
 const SERVER_COMMAND = 'typescript-language-server';
 const DEFAULT_ARGS = ['--stdio'];
-const TYPESCRIPT_EXTENSIONS = ['.ts', '.tsx'];
+export const TYPESCRIPT_EXTENSIONS = ['.ts', '.tsx'];
 const EXCLUDED_DIRS = ['node_modules', 'dist', 'build', 'out'];
 
 export interface TypescriptLspServerOptions {
@@ -35,6 +36,17 @@ export function createTypescriptLspClient(options: TypescriptLspServerOptions):
   });
 }
 
+export const TYPESCRIPT_LANGUAGE: LanguageDefinition<TypescriptLspServerOptions> = {
+  id: 'typescript',
+  name: 'TypeScript',
+  extensions: TYPESCRIPT_EXTENSIONS,
+  excludedDirs: EXCLUDED_DIRS,
+  optionsSchema: { type: 'object', properties: {} },
+  installHint: 'npm install -g typescript-language-server typescript',
+  requirements: () => [{ kind: 'executable', target: SERVER_COMMAND, versionArgs: ['--version'] }],
+  createClient: createTypescriptLspClient,
+};
+
 /**
  * Recursively find all TypeScript files in a directory.
  */
@@ -1,10 +1,11 @@
 import { LSPClient } from '../lsp-client';
+import { LanguageDefinition } from '../language-registry';
 import { Logger } from 'vscode-languageserver-protocol';
 import * as fs from 'fs';
 import { findFilesByExtension } from './find-files';
 
 const SERVER_COMMAND = 'poetry';
-const VAX_PASCAL_EXTENSIONS = ['.pas', '.p'];
+export const VAX_PASCAL_EXTENSIONS = ['.pas', '.p'];
 const EXCLUDED_DIRS = ['node_modules', 'dist', 'build', 'out', '.venv', 'venv', '__pycache__'];
 
 export interface VaxPascalLspServerOptions {
@@ -40,6 +41,23 @@ export function createVaxPascalLspClient(options: VaxPascalLspServerOptions): LS
   });
 }
 
+export const VAX_PASCAL_LANGUAGE: LanguageDefinition<VaxPascalLspServerOptions> = {
+  id: 'vax-pascal',
+  name: 'VAX Pascal',
+  extensions: VAX_PASCAL_EXTENSIONS,
+  excludedDirs: EXCLUDED_DIRS,
+  optionsSchema: {
+    type: 'object',
+    properties: {
+      serverDir: { type: 'string', description: 'Directory containing the vax-pascal-lsp installation (with poetry)' },
+    },
+    required: ['serverDir'],
+  },
+  installHint: 'cd <serverDir> && poetry install',
+  requirements: ({ serverDir }) => [{ kind: 'poetry', target: serverDir, option: 'serverDir' }],
+  createClient: createVaxPascalLspClient,
+};
+
 /**
  * Recursively find all VAX Pascal files in a directory.
  */
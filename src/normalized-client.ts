@@ -0,0 +1,213 @@
+import { fileURLToPath } from 'url';
+import {
+  Range,
+  Location,
+  LocationLink,
+  DocumentSymbol,
+  SymbolInformation,
+  SymbolKind,
+  SymbolTag,
+  CompletionItem,
+  CompletionList,
+} from 'vscode-languageserver-protocol';
+import { LSPClient, RequestOptions } from './lsp-client';
+import { toLocations } from './locations';
+
+export interface ResolvedLocation {
+  uri: string;
+  /** Filesystem path for file:// URIs, otherwise the URI itself */
+  filePath: string;
+  range: Range;
+}
+
+export interface SymbolNode {
+  name: string;
+  kind: SymbolKind;
+  detail?: string;
+  tags?: SymbolTag[];
+  uri: string;
+  /** Filesystem path for file:// URIs, otherwise the URI itself */
+  filePath: string;
+  /** Full extent of the symbol, including its body */
+  range: Range;
+  /** Range of the symbol's name */
+  selectionRange: Range;
+  children: SymbolNode[];
+}
+
+/**
+ * Resolve a URI to a filesystem path, leaving non-file URIs untouched.
+ */
+export function uriToFilePath(uri: string): string {
+  return uri.startsWith('file:') ? fileURLToPath(uri) : uri;
+}
+
+export function normalizeLocations(
+  result: Location | Location[] | LocationLink[] | null | undefined
+): ResolvedLocation[] {
+  return toLocations(result).map((location) => ({
+    uri: location.uri,
+    filePath: uriToFilePath(location.uri),
+    range: location.range,
+  }));
+}
+
+export function normalizeCompletions(
+  result: CompletionList | CompletionItem[] | null | undefined
+): CompletionItem[] {
+  if (!result) {
+    return [];
+  }
+  return Array.isArray(result) ? result : result.items;
+}
+
+function comparePositions(a: Range['start'], b: Range['start']): number {
+  return a.line - b.line || a.character - b.character;
+}
+
+function containsRange(outer: Range, inner: Range): boolean {
+  return comparePositions(outer.start, inner.start) <= 0 && comparePositions(outer.end, inner.end) >= 0;
+}
+
+function fromDocumentSymbol(uri: string, symbol: DocumentSymbol): SymbolNode {
+  return {
+    name: symbol.name,
+    kind: symbol.kind,
+    detail: symbol.detail,
+    tags: symbol.tags,
+    uri,
+    filePath: uriToFilePath(uri),
+    range: symbol.range,
+    selectionRange: symbol.selectionRange,
+    children: (symbol.children ?? []).map((child) => fromDocumentSymbol(uri, child)),
+  };
+}
+
+/**
+ * Rebuild the nesting of flat SymbolInformation results from their ranges:
+ * each symbol becomes a child of the smallest symbol whose range encloses it.
+ */
+function nestSymbolInformation(symbols: SymbolInformation[]): SymbolNode[] {
+  const nodes: SymbolNode[] = symbols
+    .map((symbol) => ({
+      name: symbol.name,
+      kind: symbol.kind,
+      tags: symbol.tags,
+      uri: symbol.location.uri,
+      filePath: uriToFilePath(symbol.location.uri),
+      range: symbol.location.range,
+      selectionRange: symbol.location.range,
+      children: [],
+    }))
+    // Outer symbols first: by start position, then by end position descending
+    .sort((a, b) => comparePositions(a.range.start, b.range.start)
+      || comparePositions(b.range.end, a.range.end));
+
+  const roots: SymbolNode[] = [];
+  const stack: SymbolNode[] = [];
+
+  for (const node of nodes) {
+    while (stack.length > 0) {
+      const top = stack[stack.length - 1];
+      if (top.uri === node.uri && containsRange(top.range, node.range)) break;
+      stack.pop();
+    }
+
+    const parent = stack[stack.length - 1];
+    (parent ? parent.children : roots).push(node);
+    stack.push(node);
+  }
+
+  return roots;
+}
+
+/**
+ * Normalize a document symbol result into a tree, whether or not the server
+ * supports hierarchical document symbols.
+ */
+export function normalizeSymbols(
+  uri: string,
+  result: DocumentSymbol[] | SymbolInformation[] | null | undefined
+): SymbolNode[] {
+  if (!result || result.length === 0) {
+    return [];
+  }
+
+  if ('location' in result[0]) {
+    return nestSymbolInformation(result as SymbolInformation[]);
+  }
+  return (result as DocumentSymbol[]).map((symbol) => fromDocumentSymbol(uri, symbol));
+}
+
+/**
+ * Optional layer over LSPClient whose feature methods always return arrays of
+ * one canonical shape instead of the protocol's result unions.
+ */
+export class NormalizedLSPClient {
+  constructor(private client: LSPClient) {}
+
+  getClient(): LSPClient {
+    return this.client;
+  }
+
+  async getCompletion(
+    uri: string,
+    line: number,
+    character: number,
+    options?: RequestOptions
+  ): Promise<CompletionItem[]> {
+    return normalizeCompletions(await this.client.getCompletion(uri, line, character, options));
+  }
+
+  async getDefinition(
+    uri: string,
+    line: number,
+    character: number,
+    options?: RequestOptions
+  ): Promise<ResolvedLocation[]> {
+    return normalizeLocations(await this.client.getDefinition(uri, line, character, options));
+  }
+
+  async getDeclaration(
+    uri: string,
+    line: number,
+    character: number,
+    options?: RequestOptions
+  ): Promise<ResolvedLocation[]> {
+    return normalizeLocations(await this.client.getDeclaration(uri, line, character, options));
+  }
+
+  async getImplementation(
+    uri: string,
+    line: number,
+    character: number,
+    options?: RequestOptions
+  ): Promise<ResolvedLocation[]> {
+    return normalizeLocations(await this.client.getImplementation(uri, line, character, options));
+  }
+
+  async getTypeDefinition(
+    uri: string,
+    line: number,
+    character: number,
+    options?: RequestOptions
+  ): Promise<ResolvedLocation[]> {
+    return normalizeLocations(await this.client.getTypeDefinition(uri, line, character, options));
+  }
+
+  async getReferences(
+    uri: string,
+    line: number,
+    character: number,
+    includeDeclaration: boolean = true,
+    options?: RequestOptions
+  ): Promise<ResolvedLocation[]> {
+    return normalizeLocations(
+      await this.client.getReferences(uri, line, character, includeDeclaration, options)
+    );
+  }
+
+  async getDocumentSymbols(uri: string, options?: RequestOptions): Promise<SymbolNode[]> {
+    return normalizeSymbols(uri, await this.client.getDocumentSymbols(uri, options));
+  }
+}
@@ -0,0 +1,74 @@
+import { SemanticTokensLegend, SemanticTokensEdit } from 'vscode-languageserver-protocol';
+
+const INTEGERS_PER_TOKEN = 5;
+
+export interface DecodedSemanticToken {
+  /** Zero-based line of the token */
+  line: number;
+  /** Zero-based start character of the token */
+  start: number;
+  /** Length of the token in characters */
+  length: number;
+  /** Token type name from the legend (e.g. 'function', 'variable') */
+  tokenType: string;
+  /** Token modifier names from the legend (e.g. 'declaration', 'readonly') */
+  modifiers: string[];
+}
+
+/**
+ * Decode the packed relative integer encoding of semantic tokens into absolute,
+ * named tokens using the server's legend.
+ *
+ * Each token is encoded as five integers: deltaLine, deltaStart, length,
+ * tokenType index and a tokenModifiers bitset.
+ */
+export function decodeSemanticTokens(
+  data: number[],
+  legend: SemanticTokensLegend
+): DecodedSemanticToken[] {
+  const tokens: DecodedSemanticToken[] = [];
+  let line = 0;
+  let start = 0;
+
+  for (let i = 0; i + INTEGERS_PER_TOKEN <= data.length; i += INTEGERS_PER_TOKEN) {
+    const [deltaLine, deltaStart, length, typeIndex, modifierBits] = data.slice(i, i + INTEGERS_PER_TOKEN);
+
+    line += deltaLine;
+    start = deltaLine === 0 ? start + deltaStart : deltaStart;
+
+    tokens.push({
+      line,
+      start,
+      length,
+      tokenType: legend.tokenTypes[typeIndex] ?? `unknown(${typeIndex})`,
+      modifiers: decodeModifiers(modifierBits, legend.tokenModifiers),
+    });
+  }
+
+  return tokens;
+}
+
+function decodeModifiers(bits: number, tokenModifiers: string[]): string[] {
+  const modifiers: string[] = [];
+  for (let bit = 0; bit < tokenModifiers.length; bit++) {
+    if (bits & (1 << bit)) {
+      modifiers.push(tokenModifiers[bit]);
+    }
+  }
+  return modifiers;
+}
+
+/**
+ * Apply the edits of a semantic tokens delta response to the previous token data.
+ */
+export function applySemanticTokensEdits(data: number[], edits: SemanticTokensEdit[]): number[] {
+  const result = [...data];
+
+  // Apply from the end so earlier edit offsets stay valid
+  const sorted = [...edits].sort((a, b) => b.start - a.start);
+  for (const edit of sorted) {
+    result.splice(edit.start, edit.deleteCount, ...(edit.data ?? []));
+  }
+
+  return result;
+}
@@ -0,0 +1,202 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { LSPClient, SocketOptions, PipeOptions } from './lsp-client';
+import { LanguageDefinition, LanguageRegistry, LanguageServerOptions } from './language-registry';
+
+const DEFAULT_EXCLUDED_DIRS = ['node_modules', 'dist', 'build', 'out'];
+const TRANSPORTS = ['stdio', 'socket', 'pipe', 'node-ipc'];
+const CONNECTION_MODES = ['connect', 'listen'];
+
+// Types of the socket and pipe transport options
+const TRANSPORT_OPTIONS: Record<'socket' | 'pipe', Record<string, string>> = {
+  socket: { port: 'number', host: 'string', mode: 'string', connectTimeout: 'number' },
+  pipe: { path: 'string', mode: 'string', connectTimeout: 'number' },
+};
+
+/**
+ * A language server defined in a JSON or YAML file instead of a factory
+ * module, e.g. an in-house server that is not part of this package.
+ */
+export interface ServerDefinition {
+  /** Language id, used as `language` by the bridge */
+  id: string;
+  /** Display name (default: id) */
+  name?: string;
+  /** LSP language identifier of the documents (default: id) */
+  languageId?: string;
+  /** Command that starts the server */
+  command: string;
+  /** Arguments passed to the command */
+  args?: string[];
+  /** Arguments that make the command print its version, for doctor() */
+  versionArgs?: string[];
+  /** How to install the server, reported by doctor() */
+  installHint?: string;
+  /** How to talk to the server (default: 'stdio') */
+  transport?: 'stdio' | 'socket' | 'pipe' | 'node-ipc';
+  /** Socket options, required for the 'socket' transport */
+  socket?: SocketOptions;
+  /** Pipe options, required for the 'pipe' transport unless it listens */
+  pipe?: PipeOptions;
+  /** Working directory for the server process, relative to the definitions file */
+  cwd?: string;
+  /** File extensions handled by the server, including the dot */
+  extensions: string[];
+  /** Directories skipped when searching a workspace for source files */
+  excludedDirs?: string[];
+  /** Sent as initializationOptions in the initialize request */
+  initializationOptions?: Record<string, unknown>;
+  /** Server settings keyed by section, returned for workspace/configuration requests */
+  settings?: Record<string, unknown>;
+}
+
+function fail(source: string, message: string): never {
+  throw new Error(`Invalid server definition in ${source}: ${message}`);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function validateTransportOptions(where: string, key: 'socket' | 'pipe', value: unknown): void {
+  if (value === undefined) {
+    return;
+  }
+  if (!isObject(value)) {
+    fail(where, `"${key}" must be an object`);
+  }
+  for (const [option, type] of Object.entries(TRANSPORT_OPTIONS[key])) {
+    if (value[option] !== undefined && typeof value[option] !== type) {
+      fail(where, `"${key}.${option}" must be a ${type}`);
+    }
+  }
+  if (value.mode !== undefined && !CONNECTION_MODES.includes(value.mode as string)) {
+    fail(where, `"${key}.mode" must be one of ${CONNECTION_MODES.join(', ')}`);
+  }
+}
+
+function validateServerDefinition(value: unknown, source: string): ServerDefinition {
+  if (!isObject(value)) {
+    fail(source, 'expected an object');
+  }
+
+  const definition = value;
+  if (typeof definition.id !== 'string' || !definition.id) {
+    fail(source, '"id" must be a non-empty string');
+  }
+  const where = `${source} (${definition.id})`;
+
+  if (typeof definition.command !== 'string' || !definition.command) {
+    fail(where, '"command" must be a non-empty string');
+  }
+  if (!isStringArray(definition.extensions) || definition.extensions.length === 0) {
+    fail(where, '"extensions" must be a non-empty list of strings');
+  }
+  for (const key of ['args', 'versionArgs', 'excludedDirs']) {
+    if (definition[key] !== undefined && !isStringArray(definition[key])) {
+      fail(where, `"${key}" must be a list of strings`);
+    }
+  }
+  for (const key of ['name', 'languageId', 'installHint', 'cwd']) {
+    if (definition[key] !== undefined && typeof definition[key] !== 'string') {
+      fail(where, `"${key}" must be a string`);
+    }
+  }
+  for (const key of ['settings', 'initializationOptions']) {
+    if (definition[key] !== undefined && !isObject(definition[key])) {
+      fail(where, `"${key}" must be an object`);
+    }
+  }
+  if (definition.transport !== undefined && !TRANSPORTS.includes(definition.transport as string)) {
+    fail(where, `"transport" must be one of ${TRANSPORTS.join(', ')}`);
+  }
+  validateTransportOptions(where, 'socket', definition.socket);
+  validateTransportOptions(where, 'pipe', definition.pipe);
+  if (definition.transport === 'socket' && (definition.socket as SocketOptions | undefined)?.port === undefined) {
+    fail(where, 'the socket transport needs "socket.port"');
+  }
+  const pipe = definition.pipe as PipeOptions | undefined;
+  if (definition.transport === 'pipe' && pipe?.path === undefined && pipe?.mode !== 'listen') {
+    fail(where, 'the pipe transport needs "pipe.path", or "pipe.mode: listen" to generate one');
+  }
+
+  return definition as unknown as ServerDefinition;
+}
+
+/**
+ * Read server definitions from a JSON or YAML (.yaml, .yml) file. The file
+ * holds either a list of definitions or an object with a `servers` list.
+ * A relative cwd, and a relative command containing a path separator, are
+ * resolved against the file's directory.
+ */
+export function loadServerDefinitions(filePath: string): ServerDefinition[] {
+  const content = fs.readFileSync(filePath, 'utf-8');
+  const extension = path.extname(filePath).toLowerCase();
+  const data: unknown = extension === '.yaml' || extension === '.yml'
+    ? parseYaml(content)
+    : JSON.parse(content);
+
+  const servers = Array.isArray(data) ? data : (data as { servers?: unknown } | null)?.servers;
+  if (!Array.isArray(servers)) {
+    throw new Error(`No server definitions in ${filePath}: expected a list or a "servers" list`);
+  }
+
+  const baseDir = path.dirname(path.resolve(filePath));
+  return servers.map((server, index) => {
+    const definition = validateServerDefinition(server, `${filePath} servers[${index}]`);
+    const isRelativePath = !path.isAbsolute(definition.command) && /[\\/]/.test(definition.command);
+    return {
+      ...definition,
+      command: isRelativePath ? path.resolve(baseDir, definition.command) : definition.command,
+      cwd: definition.cwd && path.resolve(baseDir, definition.cwd),
+    };
+  });
+}
+
+/**
+ * Turn a server definition into a registry entry whose clients spawn its command.
+ * serverArgs given when creating a client are appended to the definition's args.
+ */
+export function createServerLanguage(definition: ServerDefinition): LanguageDefinition {
+  const { transport = 'stdio' } = definition;
+
+  return {
+    id: definition.id,
+    name: definition.name ?? definition.id,
+    languageId: definition.languageId,
+    extensions: definition.extensions,
+    excludedDirs: definition.excludedDirs ?? DEFAULT_EXCLUDED_DIRS,
+    optionsSchema: { type: 'object', properties: {} },
+    installHint: definition.installHint,
+    requirements: () => [{ kind: 'executable', target: definition.command, versionArgs: definition.versionArgs }],
+    createClient: ({ rootUri, logger, serverArgs = [] }: LanguageServerOptions) => new LSPClient({
+      serverCommand: definition.command,
+      serverArgs: [...(definition.args ?? []), ...serverArgs],
+      rootUri,
+      logger,
+      cwd: definition.cwd,
+      socket: transport === 'socket' ? definition.socket : undefined,
+      pipe: transport === 'pipe' ? definition.pipe : undefined,
+      nodeIpc: transport === 'node-ipc',
+      initializationOptions: definition.initializationOptions,
+      settings: definition.settings,
+    }),
+  };
+}
+
+/**
+ * Load the server definitions of a file and register them, returning the
+ * registered languages.
+ */
+export function registerServerDefinitions(registry: LanguageRegistry, filePath: string): LanguageDefinition[] {
+  const languages = loadServerDefinitions(filePath).map(createServerLanguage);
+  for (const language of languages) {
+    registry.register(language);
+  }
+  return languages;
+}
@@ -0,0 +1,189 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { FastifyBaseLogger, FastifyRequest, FastifyReply } from 'fastify';
+import { LanguageRegistry, LanguageServerOptions } from '../language-registry';
+import { LSPClient, LifecycleEvent } from '../lsp-client';
+import { createServerLanguage } from '../server-definitions';
+import { LSPBridgeServer } from '../bridge/bridge-server';
+import { startSession, stopAllSessions } from '../bridge/bridge-sessions';
+import { createLspClientForLanguage } from '../bridge/lsp-client-factory';
+import { BridgeState, BadRequestError } from '../bridge/bridge-types';
+import { createRequireClient, getSession } from '../bridge/routes/route-guards';
+import { STUB_SERVER, wait } from './test-helpers';
+
+const silentLog = {
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+  debug: () => {},
+} as unknown as FastifyBaseLogger;
+
+function createState(): BridgeState {
+  const registry = new LanguageRegistry([
+    createServerLanguage({
+      id: 'stub',
+      command: process.execPath,
+      args: [STUB_SERVER],
+      extensions: ['.stub'],
+    }),
+    createServerLanguage({
+      id: 'exiting',
+      command: process.execPath,
+      args: ['-e', 'process.exit(1)'],
+      extensions: ['.exiting'],
+    }),
+  ]);
+  return { registry, sessions: new Map(), routing: { roots: [] }, pendingSessions: new Map() };
+}
+
+// Run the requireClient guard on an unscoped request, returning the error reply if it sent one
+async function requireClient(state: BridgeState, request: FastifyRequest): Promise<{ code?: number; body?: unknown }> {
+  const sent: { code?: number; body?: unknown } = {};
+  const reply = {
+    code(code: number) {
+      sent.code = code;
+      return reply;
+    },
+    send(body: unknown) {
+      sent.body = body;
+      return reply;
+    },
+  };
+  await createRequireClient(state)(request, reply as unknown as FastifyReply);
+  return sent;
+}
+
+function createRequest(body: Record<string, unknown> = {}): FastifyRequest {
+  return { params: {}, body, log: silentLog } as unknown as FastifyRequest;
+}
+
+describe('Bridge sessions', () => {
+  let state: BridgeState;
+
+  afterEach(async () => {
+    await stopAllSessions(state);
+  });
+
+  it('should drop buffered diagnostics when the server restarts', async () => {
+    state = createState();
+    await startSession(state, 'default', {
+      language: 'stub',
+      rootUri: 'file:///tmp',
+      restart: { enabled: true, initialDelayMs: 10 },
+    }, silentLog);
+    const session = state.sessions.get('default')!;
+
+    await session.client.getConnection()!.sendNotification('test/serverNotification', {
+      method: 'textDocument/publishDiagnostics',
+      params: { uri: 'file:///tmp/a.stub', diagnostics: [{ range: { start: { line: 0, character: 0 }, end: { line: 0, character: 1 } }, message: 'stale' }] },
+    });
+    for (let attempt = 0; attempt < 50 && session.diagnosticsBuffer.size === 0; attempt++) {
+      await wait(20);
+    }
+    expect(session.diagnosticsBuffer.has('file:///tmp/a.stub')).toBe(true);
+
+    const restarted = new Promise<LifecycleEvent>((resolve) => {
+      session.client.onLifecycle((event) => {
+        if (event.type === 'restarted') resolve(event);
+      });
+    });
+    session.client.getConnection()!.sendNotification('test/crash');
+    await restarted;
+
+    expect(session.diagnosticsBuffer.size).toBe(0);
+    expect(state.sessions.get('default')).toBe(session);
+  });
+
+  it('should hold requests for a session until its server has started', async () => {
+    state = createState();
+    const starting = startSession(state, 'default', { language: 'stub', rootUri: 'file:///tmp' }, silentLog);
+
+    const request = createRequest();
+    expect(await requireClient(state, request)).toEqual({});
+    expect(getSession(request).client.getServerCapabilities()).not.toBeNull();
+    await starting;
+  });
+
+  it('should refuse requests for a session whose server failed to start', async () => {
+    state = createState();
+    const starting = startSession(state, 'default', { language: 'exiting', rootUri: 'file:///tmp' }, silentLog);
+
+    const sent = await requireClient(state, createRequest());
+    expect(sent).toEqual({ code: 400, body: { error: 'LSP server for exiting failed to start' } });
+    await expect(starting).rejects.toThrow();
+    expect(state.sessions.has('default')).toBe(false);
+  });
+
+  it('should validate the options of a language registered at runtime and pass on only declared ones', () => {
+    state = createState();
+    const created: LanguageServerOptions[] = [];
+    state.registry.register({
+      id: 'natural',
+      name: 'Natural',
+      extensions: ['.nsp'],
+      excludedDirs: [],
+      optionsSchema: { type: 'object', properties: { fuser: { type: 'string' } }, required: ['fuser'] },
+      createClient: (options) => {
+        created.push(options);
+        return {} as LSPClient;
+      },
+    });
+
+    expect(() => createLspClientForLanguage({ language: 'natural', rootUri: 'file:///tmp' }, state.registry))
+      .toThrow(BadRequestError);
+    createLspClientForLanguage({
+      language: 'natural',
+      rootUri: 'file:///tmp',
+      serverArgs: ['--trace'],
+      fuser: 'SYSTEM',
+      settings: { natural: {} },
+      logger: 'not a logger',
+    }, state.registry);
+    expect(created).toEqual([{ rootUri: 'file:///tmp', serverArgs: ['--trace'], fuser: 'SYSTEM' }]);
+  });
+
+  it('should merge the settings given at start into the settings of the definition', async () => {
+    state = createState();
+    state.registry.register(createServerLanguage({
+      id: 'configured',
+      command: process.execPath,
+      args: [STUB_SERVER],
+      extensions: ['.configured'],
+      settings: { stub: { trace: 'off' }, format: { tabSize: 2 } },
+    }));
+
+    await startSession(state, 'default', {
+      language: 'configured',
+      rootUri: 'file:///tmp',
+      settings: { stub: { trace: 'verbose' } },
+    }, silentLog);
+
+    const connection = state.sessions.get('default')!.client.getConnection()!;
+    expect(await connection.sendRequest('test/configuration', { items: [{ section: 'stub' }, { section: 'format' }] }))
+      .toEqual([{ trace: 'verbose' }, { tabSize: 2 }]);
+  });
+
+  it('should answer 504 when a request outlives the requestTimeout given at start', async () => {
+    state = createState();
+    const server = new LSPBridgeServer(0, '127.0.0.1', state.registry);
+    const app = server['app'];
+    try {
+      const started = await app.inject({
+        method: 'POST',
+        url: '/start',
+        payload: { language: 'stub', rootUri: 'file:///tmp', requestTimeout: 100 },
+      });
+      expect(started.statusCode).toBe(200);
+
+      // The stub server never answers hover requests
+      const response = await app.inject({
+        method: 'POST',
+        url: '/hover',
+        payload: { uri: 'file:///tmp/a.stub', line: 0, character: 0 },
+      });
+      expect(response.statusCode).toBe(504);
+      expect(response.json()).toEqual({ error: 'Request textDocument/hover timed out after 100ms' });
+    } finally {
+      await server.stop();
+    }
+  });
+});
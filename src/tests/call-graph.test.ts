@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { CallHierarchyItem, SymbolKind } from 'vscode-languageserver-protocol';
+import { buildCallGraph, CallHierarchyProvider } from '../call-graph';
+
+function item(name: string, line: number): CallHierarchyItem {
+  const range = { start: { line, character: 0 }, end: { line, character: name.length } };
+  return { name, kind: SymbolKind.Function, uri: 'file:///app.ts', range, selectionRange: range };
+}
+
+// main -> parse -> tokenize, main -> run -> parse (parse is reached twice)
+const functions = {
+  main: item('main', 0),
+  parse: item('parse', 10),
+  tokenize: item('tokenize', 20),
+  run: item('run', 30),
+};
+const calls: Record<string, CallHierarchyItem[]> = {
+  main: [functions.parse, functions.run],
+  parse: [functions.tokenize],
+  run: [functions.parse],
+  tokenize: [],
+};
+const site = { start: { line: 1, character: 2 }, end: { line: 1, character: 6 } };
+
+function createProvider(
+  graph: Record<string, CallHierarchyItem[]>,
+  entry: CallHierarchyItem,
+  items: Record<string, CallHierarchyItem> = functions
+): CallHierarchyProvider {
+  return {
+    prepareCallHierarchy: async () => [entry],
+    getOutgoingCalls: async (from) => graph[from.name].map((to) => ({ to, fromRanges: [site] })),
+    getIncomingCalls: async (to) => Object.entries(graph)
+      .filter(([, callees]) => callees.some((c) => c.name === to.name))
+      .map(([caller]) => ({ from: items[caller], fromRanges: [site] })),
+  };
+}
+
+const provider = createProvider(calls, functions.main);
+
+describe('Call graph', () => {
+  it('should walk outgoing calls and deduplicate nodes', async () => {
+    const graph = await buildCallGraph(provider, 'file:///app.ts', 0, 0);
+
+    expect(graph.roots).toHaveLength(1);
+    expect(graph.nodes.map((n) => n.item.name).sort()).toEqual(['main', 'parse', 'run', 'tokenize']);
+    expect(graph.nodes.find((n) => n.item.name === 'tokenize')!.depth).toBe(2);
+    expect(graph.edges).toHaveLength(4);
+  });
+
+  it('should stop at the maximum depth', async () => {
+    const graph = await buildCallGraph(provider, 'file:///app.ts', 0, 0, { maxDepth: 1 });
+
+    expect(graph.nodes.map((n) => n.item.name).sort()).toEqual(['main', 'parse', 'run']);
+    expect(graph.edges).toHaveLength(2);
+  });
+
+  it('should point incoming edges from caller to callee', async () => {
+    const incomingProvider = { ...provider, prepareCallHierarchy: async () => [functions.tokenize] };
+    const graph = await buildCallGraph(incomingProvider, 'file:///app.ts', 20, 0, { direction: 'incoming' });
+
+    const names = (id: string) => graph.nodes.find((n) => n.id === id)!.item.name;
+    const edges = graph.edges.map((e) => `${names(e.from)}->${names(e.to)}`).sort();
+    expect(edges).toEqual(['main->parse', 'main->run', 'parse->tokenize', 'run->parse']);
+  });
+
+  it('should record a call found from both sides as a single edge', async () => {
+    const bothProvider = { ...provider, prepareCallHierarchy: async () => [functions.parse] };
+    const graph = await buildCallGraph(bothProvider, 'file:///app.ts', 10, 0, { direction: 'both' });
+
+    const names = (id: string) => graph.nodes.find((n) => n.id === id)!.item.name;
+    const edges = graph.edges.map((e) => `${names(e.from)}->${names(e.to)}`).sort();
+    expect(edges).toEqual(['main->parse', 'main->run', 'parse->tokenize', 'run->parse']);
+    expect(graph.edges.every((e) => e.fromRanges.length === 1)).toBe(true);
+  });
+
+  it('should not follow the other calls of callers with direction both', async () => {
+    const log = item('log', 40);
+    const graph = await buildCallGraph(
+      createProvider({ ...calls, run: [functions.parse, log], log: [] }, functions.parse, { ...functions, log }),
+      'file:///app.ts', 10, 0, { direction: 'both' }
+    );
+
+    expect(graph.nodes.map((n) => n.item.name).sort()).toEqual(['main', 'parse', 'run', 'tokenize']);
+  });
+});
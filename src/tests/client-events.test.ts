@@ -0,0 +1,97 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { MessageType } from 'vscode-languageserver-protocol';
+import { LSPClient, LifecycleEvent } from '../lsp-client';
+import { createStubClient, safeStop } from './test-helpers';
+
+function sendServerNotification(client: LSPClient, method: string, params: unknown): void {
+  client.getConnection()!.sendNotification('test/serverNotification', { method, params });
+}
+
+function sendServerRequest(client: LSPClient, method: string, params: unknown): Promise<unknown> {
+  return client.getConnection()!.sendRequest('test/serverRequest', { method, params });
+}
+
+describe('Client events', () => {
+  let client: LSPClient;
+
+  afterEach(async () => {
+    if (client) {
+      await safeStop(client);
+    }
+  });
+
+  it('should emit window messages, telemetry and traces', async () => {
+    client = createStubClient();
+    await client.start();
+
+    const received: unknown[] = [];
+    client.on('showMessage', (params) => received.push(['showMessage', params.message]));
+    client.on('logMessage', (params) => received.push(['logMessage', params.type]));
+    client.on('telemetry', (data) => received.push(['telemetry', data]));
+    client.on('logTrace', (params) => received.push(['logTrace', params.message]));
+
+    sendServerNotification(client, 'window/showMessage', { type: MessageType.Warning, message: 'No go.mod found' });
+    sendServerNotification(client, 'window/logMessage', { type: MessageType.Error, message: 'boom' });
+    sendServerNotification(client, 'telemetry/event', { name: 'indexed' });
+    sendServerNotification(client, '$/logTrace', { message: 'trace' });
+
+    await expect.poll(() => received).toEqual([
+      ['showMessage', 'No go.mod found'],
+      ['logMessage', MessageType.Error],
+      ['telemetry', { name: 'indexed' }],
+      ['logTrace', 'trace'],
+    ]);
+  });
+
+  it('should support once and off', async () => {
+    client = createStubClient();
+    await client.start();
+
+    const messages: string[] = [];
+    const removed = (): void => { messages.push('removed'); };
+    client.once('showMessage', (params) => messages.push(`once: ${params.message}`));
+    client.on('showMessage', removed);
+    client.off('showMessage', removed);
+    client.on('showMessage', (params) => messages.push(params.message));
+
+    sendServerNotification(client, 'window/showMessage', { type: MessageType.Info, message: 'first' });
+    sendServerNotification(client, 'window/showMessage', { type: MessageType.Info, message: 'second' });
+
+    await expect.poll(() => messages).toEqual(['once: first', 'first', 'second']);
+  });
+
+  it('should answer showMessageRequest and showDocument with the configured handlers', async () => {
+    client = createStubClient();
+    await client.start();
+
+    const request = {
+      type: MessageType.Warning,
+      message: 'Reload workspace?',
+      actions: [{ title: 'Yes' }, { title: 'No' }],
+    };
+    expect(await sendServerRequest(client, 'window/showMessageRequest', request)).toBeNull();
+    expect(await sendServerRequest(client, 'window/showDocument', { uri: 'https://example.com' }))
+      .toEqual({ success: false });
+
+    const requested: string[] = [];
+    client.on('showMessageRequest', (params) => requested.push(params.message));
+    client.setShowMessageRequestHandler(async (params) => params.actions![0]);
+    client.setShowDocumentHandler(() => ({ success: true }));
+
+    expect(await sendServerRequest(client, 'window/showMessageRequest', request)).toEqual({ title: 'Yes' });
+    expect(await sendServerRequest(client, 'window/showDocument', { uri: 'https://example.com' }))
+      .toEqual({ success: true });
+    expect(requested).toEqual(['Reload workspace?']);
+  });
+
+  it('should emit started and stopped lifecycle events', async () => {
+    client = createStubClient();
+    const events: LifecycleEvent['type'][] = [];
+    client.on('lifecycle', (event) => events.push(event.type));
+
+    await client.start();
+    await client.stop();
+
+    expect(events).toEqual(['started', 'stopped']);
+  });
+});
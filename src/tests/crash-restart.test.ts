@@ -0,0 +1,67 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { LSPClient, LifecycleEvent } from '../lsp-client';
+import { STUB_SERVER, createStubClient, safeStop } from './test-helpers';
+
+function nextEvent(client: LSPClient, type: LifecycleEvent['type']): Promise<LifecycleEvent> {
+  return new Promise((resolve) => {
+    client.onLifecycle((event) => {
+      if (event.type === type) resolve(event);
+    });
+  });
+}
+
+describe('Crash detection and restart', () => {
+  let client: LSPClient;
+
+  afterEach(async () => {
+    if (client) {
+      await safeStop(client);
+    }
+  });
+
+  it('should report a crash without restarting by default', async () => {
+    client = createStubClient();
+    await client.start();
+
+    const crashed = nextEvent(client, 'crashed');
+    client.getConnection()!.sendNotification('test/crash');
+
+    expect(await crashed).toMatchObject({ type: 'crashed', code: 1, willRestart: false });
+    expect(client.getConnection()).toBeNull();
+    await expect(client.getHover('file:///tmp/a.txt', 0, 0)).rejects.toThrow('Client not started');
+  });
+
+  it('should restart and reopen documents at their latest text', async () => {
+    client = createStubClient({ restart: { enabled: true, initialDelayMs: 10 } });
+    await client.start();
+    await client.openDocument('file:///tmp/a.txt', 'plaintext', 'first');
+    await client.changeDocument('file:///tmp/a.txt', 'second');
+
+    const restarted = nextEvent(client, 'restarted');
+    client.getConnection()!.sendNotification('test/crash');
+
+    expect(await restarted).toEqual({ type: 'restarted', attempt: 1 });
+    const documents = await client.getConnection()!.sendRequest('test/openDocuments');
+    expect(documents).toEqual([{ uri: 'file:///tmp/a.txt', text: 'second' }]);
+  });
+
+  it('should keep counting attempts when the server crashes again after a restart', async () => {
+    client = createStubClient({
+      serverArgs: [STUB_SERVER, '--crash-on-open'],
+      restart: { enabled: true, maxAttempts: 3, initialDelayMs: 50 },
+    });
+    await client.start();
+
+    const events: LifecycleEvent[] = [];
+    client.onLifecycle((event) => events.push(event));
+    const failed = nextEvent(client, 'restart-failed');
+    await client.openDocument('file:///tmp/a.txt', 'plaintext', 'chokes the server');
+
+    expect(await failed).toEqual({ type: 'restart-failed', attempts: 3 });
+    expect(events.filter((event) => event.type === 'restarting')).toEqual([
+      { type: 'restarting', attempt: 1, delayMs: 50 },
+      { type: 'restarting', attempt: 2, delayMs: 100 },
+      { type: 'restarting', attempt: 3, delayMs: 200 },
+    ]);
+  });
+});
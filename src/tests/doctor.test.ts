@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { checkLanguage, doctor, findExecutable } from '../doctor';
+import { LanguageDefinition, LanguageRegistry } from '../language-registry';
+import { COBOL_LANGUAGE } from '../lsp-server/cobol-lsp-server';
+import { LSPClient } from '../lsp-client';
+
+interface NaturalServerOptions {
+  rootUri: string;
+  serverJar: string;
+}
+
+const naturalLanguage: LanguageDefinition<NaturalServerOptions> = {
+  id: 'natural',
+  name: 'Natural',
+  extensions: ['.nsp'],
+  excludedDirs: [],
+  optionsSchema: { type: 'object', properties: {} },
+  installHint: 'Download natural-ls.jar',
+  requirements: ({ serverJar }) => [
+    { kind: 'executable', target: process.execPath, versionArgs: ['--version'] },
+    { kind: 'jar', target: serverJar, option: 'serverJar' },
+  ],
+  createClient: ({ rootUri }) => new LSPClient({ serverCommand: process.execPath, rootUri }),
+};
+
+describe('Doctor', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'doctor-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should find executables by path or on PATH', () => {
+    expect(findExecutable(process.execPath)).toBe(process.execPath);
+    expect(findExecutable(path.basename(process.execPath))).toBeDefined();
+    expect(findExecutable('mojo-lsp-no-such-server')).toBeUndefined();
+
+    const script = path.join(dir, 'not-executable');
+    fs.writeFileSync(script, '');
+    fs.chmodSync(script, 0o644);
+    expect(findExecutable(script)).toBeUndefined();
+  });
+
+  it('should report the version and the missing options of a language', async () => {
+    const report = await checkLanguage(naturalLanguage as LanguageDefinition);
+
+    expect(report).toMatchObject({ id: 'natural', ready: false, version: process.version, installHint: 'Download natural-ls.jar' });
+    expect(report.checks).toEqual([
+      { kind: 'executable', target: process.execPath, versionArgs: ['--version'], found: true, path: process.execPath, version: process.version },
+      { kind: 'jar', target: undefined, option: 'serverJar', found: false, error: 'Set the serverJar option' },
+    ]);
+  });
+
+  it('should check every registered language with its options', async () => {
+    const serverJar = path.join(dir, 'natural-ls.jar');
+    fs.writeFileSync(serverJar, '');
+    const registry = new LanguageRegistry([COBOL_LANGUAGE as LanguageDefinition]);
+    registry.register(naturalLanguage);
+
+    const reports = await doctor(registry, {
+      natural: { serverJar },
+      cobol: { serverJar: path.join(dir, 'missing.jar') },
+    });
+
+    expect(reports.map((report) => report.id)).toEqual(['cobol', 'natural']);
+    expect(reports[0].ready).toBe(false);
+    expect(reports[0].checks.find((check) => check.kind === 'jar')?.error).toBe(`Server JAR not found: ${path.join(dir, 'missing.jar')}`);
+    expect(reports[1].ready).toBe(true);
+    expect(reports[1].checks[1].path).toBe(serverJar);
+  });
+
+  it('should report a missing poetry server directory', async () => {
+    const report = await checkLanguage({
+      ...naturalLanguage,
+      requirements: () => [{ kind: 'poetry', target: path.join(dir, 'missing'), option: 'serverDir' }],
+    } as LanguageDefinition);
+
+    expect(report.ready).toBe(false);
+    expect(report.checks[0].error).toBe(`Server directory not found: ${path.join(dir, 'missing')}`);
+  });
+});
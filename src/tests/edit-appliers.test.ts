@@ -0,0 +1,209 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { WorkspaceEdit } from 'vscode-languageserver-protocol';
+import { LSPClient } from '../lsp-client';
+import { InMemoryEditApplier, DryRunEditApplier } from '../edit-appliers';
+import { createStubClient, safeStop } from './test-helpers';
+
+function insertAtStart(uri: string, text: string): WorkspaceEdit {
+  const start = { line: 0, character: 0 };
+  return { changes: { [uri]: [{ range: { start, end: start }, newText: text }] } };
+}
+
+// Makes the stub server send workspace/applyEdit and returns the client's answer
+function serverApplyEdit(client: LSPClient, edit: WorkspaceEdit, label?: string): Promise<unknown> {
+  return client.getConnection()!.sendRequest('test/serverRequest', {
+    method: 'workspace/applyEdit',
+    params: { edit, label },
+  });
+}
+
+describe('workspace/applyEdit', () => {
+  let dir: string;
+  let fileUri: string;
+  let client: LSPClient;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mojo-lsp-apply-edit-'));
+    fs.writeFileSync(path.join(dir, 'main.go'), 'package main\n');
+    fileUri = pathToFileURL(path.join(dir, 'main.go')).href;
+  });
+
+  afterEach(async () => {
+    if (client) {
+      await safeStop(client);
+    }
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should write edits to disk by default', async () => {
+    client = createStubClient();
+    await client.start();
+
+    expect(await serverApplyEdit(client, insertAtStart(fileUri, '// organized\n')))
+      .toEqual({ applied: true });
+    expect(fs.readFileSync(path.join(dir, 'main.go'), 'utf-8')).toBe('// organized\npackage main\n');
+  });
+
+  it('should move open documents when their directory is renamed', async () => {
+    client = createStubClient();
+    await client.start();
+
+    fs.mkdirSync(path.join(dir, 'pkg'));
+    fs.writeFileSync(path.join(dir, 'pkg', 'util.go'), 'package pkg\n');
+    const dirUri = pathToFileURL(path.join(dir, 'pkg')).href;
+    const newDirUri = pathToFileURL(path.join(dir, 'lib')).href;
+    await client.openDocument(`${dirUri}/util.go`, 'go', 'package pkg\n');
+
+    await serverApplyEdit(client, { documentChanges: [{ kind: 'rename', oldUri: dirUri, newUri: newDirUri }] });
+
+    expect(client.getOpenDocument(`${dirUri}/util.go`)).toBeUndefined();
+    expect(client.getOpenDocument(`${newDirUri}/util.go`)?.text).toBe('package pkg\n');
+    expect(await client.getConnection()!.sendRequest('test/openDocuments')).toEqual([
+      { uri: `${newDirUri}/util.go`, text: 'package pkg\n' },
+    ]);
+  });
+
+  it('should empty an open document overwritten by a created file', async () => {
+    client = createStubClient();
+    await client.start();
+    await client.openDocument(fileUri, 'go', 'package main\n');
+
+    await serverApplyEdit(client, { documentChanges: [{ kind: 'create', uri: fileUri, options: { overwrite: true } }] });
+
+    expect(fs.readFileSync(path.join(dir, 'main.go'), 'utf-8')).toBe('');
+    expect(await client.getConnection()!.sendRequest('test/openDocuments')).toEqual([{ uri: fileUri, text: '' }]);
+  });
+
+  it('should keep edits in memory and sync open documents', async () => {
+    const applier = new InMemoryEditApplier();
+    client = createStubClient({ editApplier: applier });
+    await client.start();
+
+    const openUri = pathToFileURL(path.join(dir, 'open.go')).href;
+    await client.openDocument(openUri, 'go', 'package open\n');
+
+    await serverApplyEdit(client, {
+      changes: {
+        ...insertAtStart(fileUri, '// a\n').changes,
+        ...insertAtStart(openUri, '// b\n').changes,
+      },
+    });
+
+    expect(fs.readFileSync(path.join(dir, 'main.go'), 'utf-8')).toBe('package main\n');
+    expect(applier.getText(fileUri)).toBe('// a\npackage main\n');
+    expect(applier.getChangedUris()).toEqual([fileUri]);
+    expect(await client.getConnection()!.sendRequest('test/openDocuments')).toEqual([
+      { uri: openUri, text: '// b\npackage open\n' },
+    ]);
+  });
+
+  it('should track created, renamed and deleted files in memory', async () => {
+    const applier = new InMemoryEditApplier();
+    client = createStubClient({ editApplier: applier });
+    await client.start();
+
+    const newUri = pathToFileURL(path.join(dir, 'new.go')).href;
+    const movedUri = pathToFileURL(path.join(dir, 'moved.go')).href;
+    await serverApplyEdit(client, {
+      documentChanges: [
+        { kind: 'create', uri: newUri },
+        { textDocument: { uri: newUri, version: null }, edits: insertAtStart(newUri, 'package x\n').changes![newUri] },
+        { kind: 'rename', oldUri: newUri, newUri: movedUri },
+        { kind: 'delete', uri: fileUri },
+      ],
+    });
+
+    expect(applier.getText(newUri)).toBeUndefined();
+    expect(applier.getText(movedUri)).toBe('package x\n');
+    expect(applier.getText(fileUri)).toBeUndefined();
+    expect(fs.readdirSync(dir)).toEqual(['main.go']);
+  });
+
+  it('should rename directories in memory', async () => {
+    const applier = new InMemoryEditApplier();
+    client = createStubClient({ editApplier: applier });
+    await client.start();
+
+    fs.mkdirSync(path.join(dir, 'pkg', 'sub'), { recursive: true });
+    fs.writeFileSync(path.join(dir, 'pkg', 'util.go'), 'package pkg\n');
+    fs.writeFileSync(path.join(dir, 'pkg', 'sub', 'sub.go'), 'package sub\n');
+    const dirUri = pathToFileURL(path.join(dir, 'pkg')).href;
+    const newDirUri = pathToFileURL(path.join(dir, 'lib')).href;
+    await client.openDocument(`${dirUri}/util.go`, 'go', 'package pkg\n');
+
+    expect(await serverApplyEdit(client, { documentChanges: [{ kind: 'rename', oldUri: dirUri, newUri: newDirUri }] }))
+      .toEqual({ applied: true });
+
+    expect(applier.getText(`${dirUri}/util.go`)).toBeUndefined();
+    expect(applier.getText(`${dirUri}/sub/sub.go`)).toBeUndefined();
+    expect(applier.getText(`${newDirUri}/util.go`)).toBe('package pkg\n');
+    expect(applier.getText(`${newDirUri}/sub/sub.go`)).toBe('package sub\n');
+    expect(client.getOpenDocument(`${newDirUri}/util.go`)?.text).toBe('package pkg\n');
+    expect(fs.readdirSync(dir).sort()).toEqual(['main.go', 'pkg']);
+  });
+
+  it('should delete directories in memory', async () => {
+    const applier = new InMemoryEditApplier();
+    client = createStubClient({ editApplier: applier });
+    await client.start();
+
+    fs.mkdirSync(path.join(dir, 'pkg'));
+    fs.writeFileSync(path.join(dir, 'pkg', 'util.go'), 'package pkg\n');
+    const dirUri = pathToFileURL(path.join(dir, 'pkg')).href;
+    await client.openDocument(`${dirUri}/util.go`, 'go', 'package pkg\n');
+
+    expect(await serverApplyEdit(client, { documentChanges: [{ kind: 'delete', uri: dirUri }] }))
+      .toEqual({ applied: false, failureReason: expect.stringContaining('Directory not empty') });
+    await serverApplyEdit(client, { documentChanges: [{ kind: 'delete', uri: dirUri, options: { recursive: true } }] });
+
+    expect(applier.getText(`${dirUri}/util.go`)).toBeUndefined();
+    expect(client.getOpenDocument(`${dirUri}/util.go`)).toBeUndefined();
+    expect(fs.existsSync(path.join(dir, 'pkg', 'util.go'))).toBe(true);
+  });
+
+  it('should record edits without applying them in dry-run mode', async () => {
+    const applier = new DryRunEditApplier();
+    client = createStubClient({ editApplier: applier });
+    await client.start();
+
+    const edit = insertAtStart(fileUri, '// organized\n');
+    expect(await serverApplyEdit(client, edit, 'Organize Imports')).toEqual({ applied: true });
+
+    expect(applier.edits).toEqual([{ edit, label: 'Organize Imports' }]);
+    expect(fs.readFileSync(path.join(dir, 'main.go'), 'utf-8')).toBe('package main\n');
+  });
+
+  it('should report a failure reason when the edit cannot be applied', async () => {
+    client = createStubClient();
+    await client.start();
+
+    const missingUri = pathToFileURL(path.join(dir, 'missing.go')).href;
+    const result = await serverApplyEdit(client, {
+      documentChanges: [{ kind: 'delete', uri: missingUri }],
+    });
+
+    expect(result).toEqual({ applied: false, failureReason: expect.stringContaining('File not found') });
+  });
+
+  it('should abort text edits computed for another version of an open document', async () => {
+    client = createStubClient();
+    await client.start();
+    await client.openDocument(fileUri, 'go', 'package main\n');
+    await client.changeDocument(fileUri, 'package main\n\n');
+
+    const edits = insertAtStart(fileUri, '// stale\n').changes![fileUri];
+    const result = await serverApplyEdit(client, {
+      documentChanges: [{ textDocument: { uri: fileUri, version: 1 }, edits }],
+    });
+
+    expect(result).toEqual({ applied: false, failureReason: expect.stringContaining('Version mismatch') });
+    expect(client.getOpenDocument(fileUri)?.text).toBe('package main\n\n');
+    expect(await serverApplyEdit(client, {
+      documentChanges: [{ textDocument: { uri: fileUri, version: 2 }, edits }],
+    })).toEqual({ applied: true });
+  });
+});
@@ -0,0 +1,175 @@
+// Minimal language server used by the client tests. It speaks LSP over stdio
+// or a socket and reports what it receives back to the client as test/* notifications.
+const {
+  createMessageConnection,
+  StreamMessageReader,
+  StreamMessageWriter,
+  IPCMessageReader,
+  IPCMessageWriter,
+  ResponseError,
+} = require('vscode-jsonrpc/node');
+const { LSPErrorCodes } = require('vscode-languageserver-protocol');
+const net = require('net');
+
+// Pass --incremental to advertise incremental instead of full document sync
+const incrementalSync = process.argv.includes('--incremental');
+// Pass --crash-on-open to exit on every didOpen, like a server that chokes on a document
+const crashOnOpen = process.argv.includes('--crash-on-open');
+
+function argValue(name) {
+  const index = process.argv.indexOf(name);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+function offsetAt(text, position) {
+  let offset = 0;
+  for (let line = 0; line < position.line; line++) {
+    const next = text.indexOf('\n', offset);
+    if (next === -1) return text.length;
+    offset = next + 1;
+  }
+  return offset + position.character;
+}
+
+function applyContentChange(text, change) {
+  if (!change.range) {
+    return change.text;
+  }
+  const start = offsetAt(text, change.range.start);
+  const end = offsetAt(text, change.range.end);
+  return text.slice(0, start) + change.text + text.slice(end);
+}
+
+// A port number or a Unix domain socket / named pipe path
+function socketTarget(value) {
+  return /^\d+$/.test(value) ? { port: Number(value), host: 'localhost' } : { path: value };
+}
+
+function serve(reader, writer) {
+  const connection = createMessageConnection(reader, writer);
+
+  let initializeParams = null;
+
+  connection.onRequest('initialize', (params) => {
+    initializeParams = params;
+    return {
+      capabilities: {
+        textDocumentSync: incrementalSync ? 2 : 1,
+        hoverProvider: true,
+      },
+    };
+  });
+
+  // Never answers on its own: only returns once the client cancels the request
+  connection.onRequest('textDocument/hover', (_params, token) => new Promise((_resolve, reject) => {
+    token.onCancellationRequested(() => {
+      connection.sendNotification('test/cancelled', { method: 'textDocument/hover' });
+      reject(new ResponseError(LSPErrorCodes.RequestCancelled, 'cancelled'));
+    });
+  }));
+
+  const openDocuments = new Map();
+  const languageIds = {};
+  let lastContentChanges = [];
+
+  connection.onNotification('textDocument/didOpen', ({ textDocument }) => {
+    if (crashOnOpen) {
+      process.exit(1);
+    }
+    openDocuments.set(textDocument.uri, { uri: textDocument.uri, text: textDocument.text });
+    languageIds[textDocument.uri] = textDocument.languageId;
+  });
+
+  connection.onNotification('textDocument/didChange', ({ textDocument, contentChanges }) => {
+    const doc = openDocuments.get(textDocument.uri);
+    if (doc) {
+      doc.text = contentChanges.reduce(applyContentChange, doc.text);
+    }
+    lastContentChanges = contentChanges;
+  });
+
+  connection.onNotification('textDocument/didClose', ({ textDocument }) => {
+    openDocuments.delete(textDocument.uri);
+  });
+
+  // Semantic tokens, registered by the tests: every request adds a token on the next line,
+  // and delta requests send only that token
+  let semanticTokens = [];
+  let semanticTokensResultId = 0;
+  const semanticTokensRequests = [];
+  connection.onRequest('textDocument/semanticTokens/full', () => {
+    semanticTokensRequests.push('full');
+    semanticTokens = [...semanticTokens, 1, 0, 3, 0, 0];
+    return { resultId: String(++semanticTokensResultId), data: semanticTokens };
+  });
+  connection.onRequest('textDocument/semanticTokens/full/delta', ({ previousResultId }) => {
+    semanticTokensRequests.push(`delta ${previousResultId}`);
+    const start = semanticTokens.length;
+    semanticTokens = [...semanticTokens, 1, 0, 3, 0, 0];
+    return {
+      resultId: String(++semanticTokensResultId),
+      edits: [{ start, deleteCount: 0, data: [1, 0, 3, 0, 0] }],
+    };
+  });
+  connection.onRequest('test/semanticTokensRequests', () => semanticTokensRequests);
+
+  connection.onRequest('test/initializeParams', () => initializeParams);
+  connection.onRequest('test/cwd', () => process.cwd());
+  connection.onRequest('test/openDocuments', () => [...openDocuments.values()]);
+  connection.onRequest('test/languageIds', () => languageIds);
+  connection.onRequest('test/lastContentChanges', () => lastContentChanges);
+
+  // Reports work-done progress, creating the token first for 'begin'
+  connection.onNotification('test/progress', async ({ token, value }) => {
+    if (value.kind === 'begin') {
+      await connection.sendRequest('window/workDoneProgress/create', { token });
+    }
+    connection.sendNotification('$/progress', { token, value });
+  });
+
+  // Asks the client for configuration and returns what it answered
+  connection.onRequest('test/configuration', ({ items }) =>
+    connection.sendRequest('workspace/configuration', { items })
+  );
+
+  const configurationChanges = [];
+  connection.onNotification('workspace/didChangeConfiguration', ({ settings }) => {
+    configurationChanges.push(settings);
+  });
+  connection.onRequest('test/configurationChanges', () => configurationChanges);
+
+  // Sends an arbitrary server-to-client notification or request
+  connection.onNotification('test/serverNotification', ({ method, params }) => {
+    connection.sendNotification(method, params);
+  });
+  connection.onRequest('test/serverRequest', ({ method, params }) => connection.sendRequest(method, params));
+
+  // Simulates a server crash
+  connection.onNotification('test/crash', () => process.exit(1));
+
+  connection.onRequest('shutdown', () => null);
+  connection.onNotification('exit', () => process.exit(0));
+
+  connection.listen();
+}
+
+// --listen <port|path>: accept clients on a socket, after an optional --listen-delay <ms>
+// --connect <port|path>: connect back to a client listening on a socket
+// --node-ipc: speak over the Node IPC channel
+// otherwise: speak over stdio
+if (argValue('--listen')) {
+  setTimeout(() => {
+    const server = net.createServer((socket) => {
+      serve(new StreamMessageReader(socket), new StreamMessageWriter(socket));
+    });
+    server.listen(socketTarget(argValue('--listen')));
+  }, Number(argValue('--listen-delay') ?? 0));
+} else if (argValue('--connect')) {
+  const socket = net.createConnection(socketTarget(argValue('--connect')), () => {
+    serve(new StreamMessageReader(socket), new StreamMessageWriter(socket));
+  });
+} else if (process.argv.includes('--node-ipc')) {
+  serve(new IPCMessageReader(process), new IPCMessageWriter(process));
+} else {
+  serve(new StreamMessageReader(process.stdin), new StreamMessageWriter(process.stdout));
+}
@@ -0,0 +1,65 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { LSPClient } from '../lsp-client';
+import { STUB_SERVER, createStubClient, safeStop } from './test-helpers';
+
+const DOC_URI = 'file:///tmp/sync.txt';
+
+function edit(startLine: number, startChar: number, endLine: number, endChar: number, newText: string) {
+  return {
+    range: {
+      start: { line: startLine, character: startChar },
+      end: { line: endLine, character: endChar },
+    },
+    newText,
+  };
+}
+
+describe('Document synchronization with applyEdits', () => {
+  let client: LSPClient;
+
+  afterEach(async () => {
+    if (client) {
+      await safeStop(client);
+    }
+  });
+
+  it('should send range changes when the server supports incremental sync', async () => {
+    client = createStubClient({ serverArgs: [STUB_SERVER, '--incremental'] });
+    await client.start();
+    await client.openDocument(DOC_URI, 'plaintext', 'let a = 1;\nprint(a);\n');
+
+    await client.applyEdits(DOC_URI, [edit(0, 4, 0, 5, 'value'), edit(1, 6, 1, 7, 'value')]);
+
+    expect(client.getOpenDocument(DOC_URI)).toMatchObject({
+      version: 2,
+      text: 'let value = 1;\nprint(value);\n',
+    });
+    const connection = client.getConnection()!;
+    expect(await connection.sendRequest('test/lastContentChanges')).toEqual([
+      { range: edit(1, 6, 1, 7, '').range, text: 'value' },
+      { range: edit(0, 4, 0, 5, '').range, text: 'value' },
+    ]);
+    expect(await connection.sendRequest('test/openDocuments')).toEqual([
+      { uri: DOC_URI, text: 'let value = 1;\nprint(value);\n' },
+    ]);
+  });
+
+  it('should fall back to the full text when the server only supports full sync', async () => {
+    client = createStubClient();
+    await client.start();
+    await client.openDocument(DOC_URI, 'plaintext', 'abc');
+
+    await client.applyEdits(DOC_URI, [edit(0, 3, 0, 3, 'def')]);
+
+    expect(await client.getConnection()!.sendRequest('test/lastContentChanges')).toEqual([
+      { text: 'abcdef' },
+    ]);
+  });
+
+  it('should reject edits to a document that is not open', async () => {
+    client = createStubClient();
+    await client.start();
+
+    await expect(client.applyEdits(DOC_URI, [])).rejects.toThrow('is not open');
+  });
+});
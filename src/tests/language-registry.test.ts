@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LanguageRegistry, LanguageDefinition } from '../language-registry';
+import { LSPClient } from '../lsp-client';
+import { BUILTIN_LANGUAGES, languageRegistry } from '../lsp-server';
+import { STUB_SERVER, silentLogger } from './test-helpers';
+
+const stubLanguage: LanguageDefinition = {
+  id: 'natural',
+  name: 'Natural',
+  extensions: ['.nsp', '.nsn'],
+  excludedDirs: ['build'],
+  optionsSchema: { type: 'object', properties: {} },
+  createClient: ({ rootUri }) => new LSPClient({
+    serverCommand: process.execPath,
+    serverArgs: [STUB_SERVER],
+    rootUri,
+    logger: silentLogger,
+  }),
+};
+
+describe('Language registry', () => {
+  it('should register every built-in language', () => {
+    expect(languageRegistry.list().map((language) => language.id)).toEqual(
+      BUILTIN_LANGUAGES.map((language) => language.id)
+    );
+    expect(languageRegistry.get('cobol')?.optionsSchema.required).toEqual(['serverJar']);
+  });
+
+  it('should pick the language by file extension', () => {
+    expect(languageRegistry.getByFile('file:///project/src/index.ts')?.id).toBe('typescript');
+    expect(languageRegistry.getByFile('file:///project/PAYROLL.CBL')?.id).toBe('cobol');
+    expect(languageRegistry.getByFile('/project/macros/INIT.mac')?.id).toBe('hlasm');
+    expect(languageRegistry.getByFile('file:///project/main.tf?version=2')?.id).toBe('terraform');
+    expect(languageRegistry.getByFile('file:///project/README.md')).toBeUndefined();
+    expect(languageRegistry.getByFile('file:///project/Makefile')).toBeUndefined();
+  });
+
+  it('should register languages at runtime', async () => {
+    const registry = new LanguageRegistry(BUILTIN_LANGUAGES);
+    registry.register(stubLanguage);
+
+    expect(registry.getByFile('file:///project/CUSTOMER.nsp')?.id).toBe('natural');
+    expect(() => registry.register(stubLanguage)).toThrow('Language already registered: natural');
+
+    const client = registry.createClient('natural', { rootUri: 'file:///tmp' });
+    try {
+      const result = await client.start();
+      expect(result.capabilities).toBeDefined();
+    } finally {
+      await client.stop();
+    }
+
+    expect(registry.unregister('natural')).toBe(true);
+    expect(registry.has('natural')).toBe(false);
+    expect(() => registry.createClient('natural', { rootUri: 'file:///tmp' })).toThrow('Unknown language: natural');
+  });
+
+  it('should find source files by extension, skipping excluded directories', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'language-registry-'));
+    try {
+      fs.mkdirSync(path.join(dir, 'src'));
+      fs.mkdirSync(path.join(dir, 'build'));
+      fs.writeFileSync(path.join(dir, 'src', 'MAIN.nsp'), '');
+      fs.writeFileSync(path.join(dir, 'build', 'MAIN.nsp'), '');
+      fs.writeFileSync(path.join(dir, 'README.md'), '');
+
+      const registry = new LanguageRegistry([stubLanguage]);
+      expect(registry.findFiles('natural', dir)).toEqual([path.join(dir, 'src', 'MAIN.nsp')]);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
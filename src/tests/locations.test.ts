@@ -0,0 +1,20 @@
+import { describe, it, expect } from 'vitest';
+import { toLocations } from '../locations';
+
+const range = { start: { line: 1, character: 0 }, end: { line: 5, character: 1 } };
+const nameRange = { start: { line: 1, character: 6 }, end: { line: 1, character: 11 } };
+
+describe('toLocations', () => {
+  it('should return an empty array for null results', () => {
+    expect(toLocations(null)).toEqual([]);
+  });
+
+  it('should wrap a single location', () => {
+    expect(toLocations({ uri: 'file:///a.go', range })).toEqual([{ uri: 'file:///a.go', range }]);
+  });
+
+  it('should map location links to their target selection range', () => {
+    const link = { targetUri: 'file:///b.go', targetRange: range, targetSelectionRange: nameRange };
+    expect(toLocations([link])).toEqual([{ uri: 'file:///b.go', range: nameRange }]);
+  });
+});
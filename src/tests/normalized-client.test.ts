@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { SymbolKind } from 'vscode-languageserver-protocol';
+import { normalizeLocations, normalizeSymbols, normalizeCompletions } from '../normalized-client';
+
+function range(startLine: number, endLine: number) {
+  return { start: { line: startLine, character: 0 }, end: { line: endLine, character: 1 } };
+}
+
+const uri = 'file:///project/src/Main.java';
+
+describe('Normalized results', () => {
+  it('should resolve file paths for locations and links', () => {
+    const locations = normalizeLocations([
+      { targetUri: uri, targetRange: range(1, 9), targetSelectionRange: range(1, 1) },
+    ]);
+    expect(locations).toEqual([{ uri, filePath: '/project/src/Main.java', range: range(1, 1) }]);
+  });
+
+  it('should flatten completion lists', () => {
+    expect(normalizeCompletions({ isIncomplete: false, items: [{ label: 'x' }] })).toEqual([{ label: 'x' }]);
+    expect(normalizeCompletions(null)).toEqual([]);
+  });
+
+  it('should keep hierarchical document symbols as a tree', () => {
+    const symbols = normalizeSymbols(uri, [{
+      name: 'Main',
+      kind: SymbolKind.Class,
+      range: range(0, 10),
+      selectionRange: range(0, 0),
+      children: [{ name: 'run', kind: SymbolKind.Method, range: range(2, 4), selectionRange: range(2, 2) }],
+    }]);
+
+    expect(symbols).toHaveLength(1);
+    expect(symbols[0].filePath).toBe('/project/src/Main.java');
+    expect(symbols[0].children.map((s) => s.name)).toEqual(['run']);
+  });
+
+  it('should nest flat symbol information by range', () => {
+    const symbols = normalizeSymbols(uri, [
+      { name: 'run', kind: SymbolKind.Method, location: { uri, range: range(2, 4) } },
+      { name: 'Main', kind: SymbolKind.Class, location: { uri, range: range(0, 10) } },
+      { name: 'count', kind: SymbolKind.Variable, location: { uri, range: range(3, 3) } },
+      { name: 'Helper', kind: SymbolKind.Class, location: { uri, range: range(12, 20) } },
+    ]);
+
+    expect(symbols.map((s) => s.name)).toEqual(['Main', 'Helper']);
+    expect(symbols[0].children.map((s) => s.name)).toEqual(['run']);
+    expect(symbols[0].children[0].children.map((s) => s.name)).toEqual(['count']);
+  });
+});
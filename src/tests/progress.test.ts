@@ -0,0 +1,72 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { LSPClient, IdleTimeoutError } from '../lsp-client';
+import { createStubClient, safeStop } from './test-helpers';
+
+function reportProgress(client: LSPClient, token: string, value: object): void {
+  client.getConnection()!.sendNotification('test/progress', { token, value });
+}
+
+async function waitForActiveProgress(client: LSPClient, count: number): Promise<void> {
+  await expect.poll(() => client.getActiveProgress().length).toBe(count);
+}
+
+describe('Work-done progress', () => {
+  let client: LSPClient;
+
+  afterEach(async () => {
+    if (client) {
+      await safeStop(client);
+    }
+  });
+
+  it('should track progress from begin through report to end', async () => {
+    client = createStubClient();
+    await client.start();
+
+    reportProgress(client, 'indexing', { kind: 'begin', title: 'Indexing', percentage: 0 });
+    await waitForActiveProgress(client, 1);
+    expect(client.getActiveProgress()).toEqual([
+      { token: 'indexing', title: 'Indexing', percentage: 0 },
+    ]);
+
+    reportProgress(client, 'indexing', { kind: 'report', message: '3/4 files', percentage: 75 });
+    await expect.poll(() => client.getActiveProgress()[0].percentage).toBe(75);
+    expect(client.getActiveProgress()[0].message).toBe('3/4 files');
+
+    reportProgress(client, 'indexing', { kind: 'end' });
+    await waitForActiveProgress(client, 0);
+  });
+
+  it('should wait until all progress has ended', async () => {
+    client = createStubClient();
+    await client.start();
+
+    reportProgress(client, 'a', { kind: 'begin', title: 'Loading' });
+    reportProgress(client, 'b', { kind: 'begin', title: 'Indexing' });
+    await waitForActiveProgress(client, 2);
+
+    let idle = false;
+    const waiting = client.waitUntilIdle({ quietPeriod: 20 }).then(() => { idle = true; });
+
+    reportProgress(client, 'a', { kind: 'end' });
+    await waitForActiveProgress(client, 1);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(idle).toBe(false);
+
+    reportProgress(client, 'b', { kind: 'end' });
+    await waiting;
+    expect(client.getActiveProgress()).toEqual([]);
+  });
+
+  it('should reject with the active progress when the timeout expires', async () => {
+    client = createStubClient();
+    await client.start();
+
+    reportProgress(client, 'indexing', { kind: 'begin', title: 'Indexing' });
+    await waitForActiveProgress(client, 1);
+
+    const error = await client.waitUntilIdle({ timeout: 50 }).catch((e) => e);
+    expect(error).toBeInstanceOf(IdleTimeoutError);
+    expect(error.message).toContain('Indexing');
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { LSPClient, RequestTimeoutError, RequestCancelledError } from '../lsp-client';
+import { createStubClient, safeStop, wait } from './test-helpers';
+
+describe('Request timeouts and cancellation', () => {
+  let client: LSPClient;
+  const cancelled: string[] = [];
+  const fileUri = 'file:///tmp/stub.txt';
+
+  beforeAll(async () => {
+    client = createStubClient({ requestTimeout: 200 });
+
+    await client.start();
+    client.getConnection()!.onNotification('test/cancelled', (params: { method: string }) => {
+      cancelled.push(params.method);
+    });
+  });
+
+  afterAll(async () => {
+    if (client) {
+      await safeStop(client);
+    }
+  });
+
+  it('should time out with the default timeout and cancel the request', async () => {
+    await expect(client.getHover(fileUri, 0, 0)).rejects.toBeInstanceOf(RequestTimeoutError);
+    await wait(100);
+    expect(cancelled).toContain('textDocument/hover');
+  });
+
+  it('should honour a per-call timeout', async () => {
+    const started = Date.now();
+    await expect(client.getHover(fileUri, 0, 0, { timeout: 50 })).rejects.toThrow('timed out after 50ms');
+    expect(Date.now() - started).toBeLessThan(200);
+  });
+
+  it('should cancel when the abort signal fires', async () => {
+    const controller = new AbortController();
+    const hover = client.getHover(fileUri, 0, 0, { signal: controller.signal, timeout: 0 });
+    controller.abort();
+    await expect(hover).rejects.toBeInstanceOf(RequestCancelledError);
+  });
+
+  it('should reject immediately for an already aborted signal', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(client.getHover(fileUri, 0, 0, { signal: controller.signal }))
+      .rejects.toBeInstanceOf(RequestCancelledError);
+  });
+});
@@ -3,7 +3,7 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { createRustLspClient } from '../lsp-server/rust-lsp-server';
 import { LSPClient } from '../lsp-client';
-import { silentLogger, wait, safeStop, commandExists, directoryExists } from './test-helpers';
+import { silentLogger, safeStop, commandExists, directoryExists } from './test-helpers';
 
 describe('Rust LSP', () => {
   let client: LSPClient;
@@ -34,7 +34,7 @@ describe('Rust LSP', () => {
     fileUri = `file://${targetFile}`;
 
     await client.openDocument(fileUri, 'rust', fileContent);
-    await wait(8000);
+    await client.waitUntilIdle({ timeout: 60000 });
   });
 
   afterAll(async () => {
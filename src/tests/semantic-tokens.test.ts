@@ -0,0 +1,76 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { decodeSemanticTokens, applySemanticTokensEdits } from '../semantic-tokens';
+import { LSPClient } from '../lsp-client';
+import { createStubClient, safeStop } from './test-helpers';
+
+describe('Semantic tokens', () => {
+  const legend = {
+    tokenTypes: ['variable', 'function', 'keyword'],
+    tokenModifiers: ['declaration', 'readonly', 'static'],
+  };
+
+  it('should decode relative positions into absolute tokens', () => {
+    const data = [
+      0, 0, 5, 2, 0, // keyword at 0:0
+      0, 6, 8, 0, 3, // variable at 0:6, declaration + readonly
+      2, 4, 3, 1, 4, // function at 2:4, static
+    ];
+
+    expect(decodeSemanticTokens(data, legend)).toEqual([
+      { line: 0, start: 0, length: 5, tokenType: 'keyword', modifiers: [] },
+      { line: 0, start: 6, length: 8, tokenType: 'variable', modifiers: ['declaration', 'readonly'] },
+      { line: 2, start: 4, length: 3, tokenType: 'function', modifiers: ['static'] },
+    ]);
+  });
+
+  it('should name token types missing from the legend', () => {
+    const [token] = decodeSemanticTokens([1, 2, 3, 9, 0], legend);
+    expect(token.tokenType).toBe('unknown(9)');
+  });
+
+  it('should apply delta edits to previous data', () => {
+    const previous = [0, 0, 5, 2, 0, 0, 6, 8, 0, 3];
+    const updated = applySemanticTokensEdits(previous, [
+      { start: 5, deleteCount: 5, data: [1, 0, 4, 1, 0] },
+      { start: 0, deleteCount: 0, data: [0, 0, 1, 0, 0] },
+    ]);
+    expect(updated).toEqual([0, 0, 1, 0, 0, 0, 0, 5, 2, 0, 1, 0, 4, 1, 0]);
+  });
+});
+
+describe('Semantic tokens requests', () => {
+  let client: LSPClient;
+
+  afterEach(async () => {
+    if (client) {
+      await safeStop(client);
+    }
+  });
+
+  it('should use a dynamically registered legend and request deltas after the first result', async () => {
+    client = createStubClient();
+    await client.start();
+    const connection = client.getConnection()!;
+    const uri = 'file:///tmp/main.go';
+    await client.openDocument(uri, 'go', 'package main\n');
+
+    expect(client.getSemanticTokensLegend()).toBeUndefined();
+    await connection.sendRequest('test/serverRequest', {
+      method: 'client/registerCapability',
+      params: {
+        registrations: [{
+          id: 'semantic-tokens',
+          method: 'textDocument/semanticTokens',
+          registerOptions: { legend: { tokenTypes: ['keyword'], tokenModifiers: [] }, full: { delta: true } },
+        }],
+      },
+    });
+    expect(client.getSemanticTokensLegend()?.tokenTypes).toEqual(['keyword']);
+
+    await client.getDecodedSemanticTokens(uri);
+    const tokens = await client.getDecodedSemanticTokens(uri);
+
+    expect(tokens.map((token) => token.line)).toEqual([1, 2]);
+    expect(await connection.sendRequest('test/semanticTokensRequests')).toEqual(['full', 'delta 1']);
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import Fastify from 'fastify';
+import { LanguageRegistry } from '../language-registry';
+import { LSPClient } from '../lsp-client';
+import { loadServerDefinitions, registerServerDefinitions } from '../server-definitions';
+import { BridgeState } from '../bridge/bridge-types';
+import { DEFAULT_SESSION_ID, startSession } from '../bridge/bridge-sessions';
+import { registerDocumentRoutes } from '../bridge/routes';
+import { schemaDefinitions } from '../bridge/schemas';
+import { STUB_SERVER, silentLogger, safeStop } from './test-helpers';
+
+describe('Server definitions', () => {
+  let dir: string;
+  let client: LSPClient | undefined;
+
+  beforeEach(() => {
+    dir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'server-definitions-')));
+  });
+
+  afterEach(async () => {
+    if (client) {
+      await safeStop(client);
+      client = undefined;
+    }
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should register servers from a YAML file and start them with its options', async () => {
+    fs.mkdirSync(path.join(dir, 'work'));
+    const file = path.join(dir, 'servers.yaml');
+    fs.writeFileSync(file, [
+      'servers:',
+      '  - id: natural',
+      '    name: Natural',
+      `    command: ${JSON.stringify(process.execPath)}`,
+      `    args: [${JSON.stringify(STUB_SERVER)}]`,
+      '    cwd: work',
+      '    extensions: [.nsp, .nsn]',
+      '    initializationOptions:',
+      '      fuser: SYSTEM',
+      '',
+    ].join('\n'));
+
+    const registry = new LanguageRegistry();
+    expect(registerServerDefinitions(registry, file).map((language) => language.id)).toEqual(['natural']);
+    expect(registry.getByFile('file:///project/CUSTOMER.nsp')?.name).toBe('Natural');
+
+    client = registry.createClient('natural', { rootUri: 'file:///tmp', logger: silentLogger });
+    await client.start();
+    const connection = client.getConnection()!;
+
+    const params = await connection.sendRequest<{ initializationOptions: unknown }>('test/initializeParams');
+    expect(params.initializationOptions).toEqual({ fuser: 'SYSTEM' });
+    expect(await connection.sendRequest('test/cwd')).toBe(path.join(dir, 'work'));
+  });
+
+  it('should load a JSON list and resolve relative commands against the file', () => {
+    const file = path.join(dir, 'servers.json');
+    fs.writeFileSync(file, JSON.stringify([
+      { id: 'jcl', command: './bin/jcl-lsp', extensions: ['.jcl'] },
+      { id: 'rexx', command: 'rexx-lsp', extensions: ['.rexx'], transport: 'socket', socket: { port: 7000 } },
+    ]));
+
+    const definitions = loadServerDefinitions(file);
+    expect(definitions.map((definition) => definition.command)).toEqual([
+      path.join(dir, 'bin', 'jcl-lsp'),
+      'rexx-lsp',
+    ]);
+  });
+
+  it('should reject invalid definitions', () => {
+    const file = path.join(dir, 'servers.json');
+    fs.writeFileSync(file, JSON.stringify({ servers: [{ id: 'jcl', command: 'jcl-lsp' }] }));
+    expect(() => loadServerDefinitions(file)).toThrow('"extensions" must be a non-empty list of strings');
+
+    fs.writeFileSync(file, JSON.stringify({ servers: [{ id: 'jcl', command: 'jcl-lsp', extensions: ['.jcl'], transport: 'socket' }] }));
+    expect(() => loadServerDefinitions(file)).toThrow('the socket transport needs "socket.port"');
+
+    fs.writeFileSync(file, JSON.stringify([{ id: 'jcl', command: 'jcl-lsp', extensions: ['.jcl'], transport: 'pipe' }]));
+    expect(() => loadServerDefinitions(file)).toThrow('the pipe transport needs "pipe.path"');
+
+    fs.writeFileSync(file, JSON.stringify([{ id: 'jcl', command: 'jcl-lsp', extensions: ['.jcl'], transport: 'pipe', pipe: { mode: 'listen' } }]));
+    expect(loadServerDefinitions(file)[0].pipe).toEqual({ mode: 'listen' });
+
+    fs.writeFileSync(file, JSON.stringify([{ id: 'jcl', command: 'jcl-lsp', extensions: ['.jcl'], socket: { port: '7011' } }]));
+    expect(() => loadServerDefinitions(file)).toThrow('"socket.port" must be a number');
+
+    fs.writeFileSync(file, JSON.stringify([{ id: 'jcl', command: 'jcl-lsp', extensions: ['.jcl'], settings: ['jcl'] }]));
+    expect(() => loadServerDefinitions(file)).toThrow('"settings" must be an object');
+
+    fs.writeFileSync(file, JSON.stringify([{ id: 'jcl', command: 'jcl-lsp', extensions: ['.jcl'], initializationOptions: 'verbose' }]));
+    expect(() => loadServerDefinitions(file)).toThrow('"initializationOptions" must be an object');
+
+    fs.writeFileSync(file, JSON.stringify([{ id: 'jcl', command: 'jcl-lsp', extensions: ['.jcl'], languageId: 7 }]));
+    expect(() => loadServerDefinitions(file)).toThrow('"languageId" must be a string');
+
+    fs.writeFileSync(file, JSON.stringify({ language: 'jcl' }));
+    expect(() => loadServerDefinitions(file)).toThrow('No server definitions');
+  });
+
+  it('should open documents with the languageId of the definition', async () => {
+    const file = path.join(dir, 'servers.yaml');
+    fs.writeFileSync(file, [
+      'servers:',
+      '  - id: mvs-jcl',
+      '    languageId: jcl',
+      `    command: ${JSON.stringify(process.execPath)}`,
+      `    args: [${JSON.stringify(STUB_SERVER)}]`,
+      '    extensions: [.jcl]',
+      '',
+    ].join('\n'));
+
+    const registry = new LanguageRegistry();
+    registerServerDefinitions(registry, file);
+    expect(registry.get('mvs-jcl')?.languageId).toBe('jcl');
+
+    const state: BridgeState = { registry, sessions: new Map(), routing: { roots: [] }, pendingSessions: new Map() };
+    const app = Fastify();
+    for (const [name, schema] of Object.entries(schemaDefinitions)) {
+      app.addSchema({ $id: name, ...(schema as object) });
+    }
+    registerDocumentRoutes(app, state);
+
+    await startSession(state, DEFAULT_SESSION_ID, { language: 'mvs-jcl', rootUri: 'file:///tmp' }, app.log);
+    client = state.sessions.get(DEFAULT_SESSION_ID)!.client;
+    const response = await app.inject({
+      method: 'POST',
+      url: '/document/open',
+      payload: { uri: 'file:///tmp/PAYROLL.jcl', text: '//PAYROLL JOB' },
+    });
+    expect(response.statusCode).toBe(200);
+
+    expect(await client.getConnection()!.sendRequest('test/languageIds')).toEqual({ 'file:///tmp/PAYROLL.jcl': 'jcl' });
+    await app.close();
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { FastifyBaseLogger } from 'fastify';
+import { findSessionForUri, routeToSession } from '../bridge/session-routing';
+import { getLanguageOptions } from '../bridge/lsp-client-factory';
+import { BridgeState, BridgeSession, BadRequestError } from '../bridge/bridge-types';
+import { LanguageRegistry } from '../language-registry';
+import { LSPClient } from '../lsp-client';
+import { languageRegistry } from '../lsp-server';
+import { createServerLanguage } from '../server-definitions';
+
+const silentLog = { info: () => {}, error: () => {} } as unknown as FastifyBaseLogger;
+
+function createState(sessions: [string, string, string][]): BridgeState {
+  return {
+    registry: languageRegistry,
+    sessions: new Map(sessions.map(([id, language, rootUri]): [string, BridgeSession] => [id, {
+      id,
+      language,
+      rootUri,
+      client: {} as LSPClient,
+      diagnosticsBuffer: new Map(),
+      started: Promise.resolve(),
+    }])),
+    routing: { roots: [] },
+    pendingSessions: new Map(),
+  };
+}
+
+describe('Session routing', () => {
+  it('should route to the session with the innermost root containing the file', () => {
+    const state = createState([
+      ['outer', 'java', 'file:///repo'],
+      ['inner', 'java', 'file:///repo/services/billing'],
+      ['cobol', 'cobol', 'file:///repo'],
+    ]);
+
+    expect(findSessionForUri(state, 'file:///repo/services/billing/src/Main.java')?.id).toBe('inner');
+    expect(findSessionForUri(state, 'file:///repo/services/billing-v2/Main.java')?.id).toBe('outer');
+    expect(findSessionForUri(state, 'file:///repo/batch/PAYROLL.cbl')?.id).toBe('cobol');
+  });
+
+  it('should not route files outside every root or without a matching language', () => {
+    const state = createState([['java', 'java', 'file:///repo']]);
+
+    expect(findSessionForUri(state, 'file:///elsewhere/Main.java')).toBeUndefined();
+    expect(findSessionForUri(state, 'file:///repo/query.sql')).toBeUndefined();
+  });
+
+  it('should report a server that fails to start on first use', async () => {
+    const state = createState([]);
+    state.registry = new LanguageRegistry([createServerLanguage({
+      id: 'exiting',
+      command: process.execPath,
+      args: ['-e', 'process.exit(1)'],
+      extensions: ['.exiting'],
+    })]);
+    state.routing = { roots: ['file:///repo'] };
+
+    const routing = routeToSession(state, 'file:///repo/job.exiting', silentLog);
+    await expect(routing).rejects.toBeInstanceOf(BadRequestError);
+    await expect(routing).rejects.toThrow('Could not start the LSP server for exiting in file:///repo');
+    expect(state.sessions.size).toBe(0);
+    expect(state.pendingSessions.size).toBe(0);
+  });
+
+  it('should report a server whose command does not exist', async () => {
+    const state = createState([]);
+    state.registry = new LanguageRegistry([createServerLanguage({
+      id: 'jcl',
+      command: 'no-such-jcl-server',
+      extensions: ['.jcl'],
+    })]);
+    state.routing = { roots: ['file:///tmp'] };
+
+    const routing = routeToSession(state, 'file:///tmp/a.jcl', silentLog);
+    await expect(routing).rejects.toBeInstanceOf(BadRequestError);
+    await expect(routing).rejects.toThrow('Could not start the LSP server for jcl in file:///tmp: spawn no-such-jcl-server ENOENT');
+    expect(state.sessions.size).toBe(0);
+  });
+
+  it('should validate start options against the language schema', () => {
+    const cobol = languageRegistry.get('cobol')!;
+
+    expect(getLanguageOptions(cobol, { serverJar: '/opt/cobol.jar', port: '1044', rootUri: 'file:///repo', extra: true }))
+      .toEqual({ serverJar: '/opt/cobol.jar', port: 1044 });
+    expect(() => getLanguageOptions(cobol, { port: 1044 }))
+      .toThrow("Invalid cobol options: options must have required property 'serverJar'");
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { LSPClient } from '../lsp-client';
+import { createStubClient, safeStop } from './test-helpers';
+
+function requestConfiguration(client: LSPClient, sections: (string | undefined)[]): Promise<unknown> {
+  return client.getConnection()!.sendRequest('test/configuration', {
+    items: sections.map((section) => ({ section })),
+  });
+}
+
+describe('Workspace configuration', () => {
+  let client: LSPClient;
+
+  afterEach(async () => {
+    if (client) {
+      await safeStop(client);
+    }
+  });
+
+  it('should answer workspace/configuration by section path', async () => {
+    const settings = {
+      gopls: { staticcheck: true, analyses: { unusedparams: true } },
+      'python.analysis': { typeCheckingMode: 'strict' },
+    };
+    client = createStubClient({ settings });
+    await client.start();
+
+    expect(await requestConfiguration(client, [
+      'gopls',
+      'gopls.analyses.unusedparams',
+      'python.analysis',
+      'rust-analyzer',
+      undefined,
+    ])).toEqual([
+      { staticcheck: true, analyses: { unusedparams: true } },
+      true,
+      { typeCheckingMode: 'strict' },
+      {},
+      settings,
+    ]);
+  });
+
+  it('should push the initial settings and later updates to the server', async () => {
+    client = createStubClient({ settings: { pylsp: { plugins: { flake8: { enabled: false } } } } });
+    await client.start();
+
+    await client.updateSettings({ pylsp: { plugins: { flake8: { enabled: true } } } });
+
+    const connection = client.getConnection()!;
+    expect(await connection.sendRequest('test/configurationChanges')).toEqual([
+      { pylsp: { plugins: { flake8: { enabled: false } } } },
+      { pylsp: { plugins: { flake8: { enabled: true } } } },
+    ]);
+    expect(await requestConfiguration(client, ['pylsp.plugins.flake8.enabled'])).toEqual([true]);
+  });
+
+  it('should not push settings when none are configured', async () => {
+    client = createStubClient();
+    await client.start();
+
+    expect(await client.getConnection()!.sendRequest('test/configurationChanges')).toEqual([]);
+    expect(await requestConfiguration(client, ['gopls'])).toEqual([{}]);
+  });
+});
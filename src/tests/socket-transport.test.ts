@@ -0,0 +1,94 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import * as net from 'net';
+import { LSPClient, SocketOptions } from '../lsp-client';
+import { STUB_SERVER, silentLogger, safeStop } from './test-helpers';
+
+function createSocketClient(serverArgs: string[], socket: SocketOptions): LSPClient {
+  return new LSPClient({
+    serverCommand: process.execPath,
+    serverArgs,
+    rootUri: 'file:///tmp',
+    logger: silentLogger,
+    socket,
+  });
+}
+
+async function findFreePort(): Promise<number> {
+  const server = net.createServer();
+  await new Promise<void>((resolve) => server.listen(0, 'localhost', () => resolve()));
+  const { port } = server.address() as net.AddressInfo;
+  await new Promise((resolve) => server.close(resolve));
+  return port;
+}
+
+describe('Socket transport', () => {
+  let client: LSPClient;
+
+  afterEach(async () => {
+    if (client) {
+      await safeStop(client);
+    }
+  });
+
+  it('should retry connecting until the server starts listening', async () => {
+    const port = await findFreePort();
+    client = createSocketClient(
+      [STUB_SERVER, '--listen', String(port), '--listen-delay', '300'],
+      { port, connectTimeout: 5000 }
+    );
+
+    const result = await client.start();
+    expect(result.capabilities.hoverProvider).toBe(true);
+  });
+
+  it('should give up when the server does not listen before the deadline', async () => {
+    const port = await findFreePort();
+    client = createSocketClient(
+      [STUB_SERVER, '--listen', String(port), '--listen-delay', '5000'],
+      { port, connectTimeout: 300 }
+    );
+
+    await expect(client.start()).rejects.toThrow(`within 300ms`);
+  });
+
+  it('should fail as soon as the server process exits', async () => {
+    const port = await findFreePort();
+    client = createSocketClient(['-e', 'process.exit(3)'], { port, connectTimeout: 10000 });
+
+    const startedAt = Date.now();
+    await expect(client.start()).rejects.toThrow('exited (code 3, signal null) before the socket connected');
+    expect(Date.now() - startedAt).toBeLessThan(5000);
+  });
+
+  it('should fail as soon as the server command cannot be spawned', async () => {
+    const port = await findFreePort();
+    client = new LSPClient({
+      serverCommand: 'no-such-lsp-server',
+      rootUri: 'file:///tmp',
+      logger: silentLogger,
+      socket: { port, connectTimeout: 10000 },
+    });
+
+    const startedAt = Date.now();
+    await expect(client.start()).rejects.toThrow('spawn no-such-lsp-server ENOENT');
+
+    client = new LSPClient({
+      serverCommand: 'no-such-lsp-server',
+      rootUri: 'file:///tmp',
+      logger: silentLogger,
+      socket: { port: 0, mode: 'listen', connectTimeout: 10000 },
+    });
+    await expect(client.start()).rejects.toThrow('spawn no-such-lsp-server ENOENT');
+    expect(Date.now() - startedAt).toBeLessThan(5000);
+  });
+
+  it('should listen and let the server connect back in listen mode', async () => {
+    client = createSocketClient(
+      [STUB_SERVER, '--connect', '${port}'],
+      { port: 0, mode: 'listen', connectTimeout: 5000 }
+    );
+
+    const result = await client.start();
+    expect(result.capabilities.hoverProvider).toBe(true);
+  });
+});
@@ -1,5 +1,7 @@
+import * as path from 'path';
 import { Logger, SymbolKind } from 'vscode-languageserver-protocol';
-import { LSPClient } from '../lsp-client';
+import { LSPClient, LSPClientOptions } from '../lsp-client';
+import { findExecutable } from '../doctor';
 
 // Silent logger for tests
 export const silentLogger: Logger = {
@@ -9,6 +11,20 @@ export const silentLogger: Logger = {
   log: () => {},
 };
 
+// Scriptable language server used by the protocol tests
+export const STUB_SERVER = path.join(__dirname, 'fixtures', 'stub-lsp-server.js');
+
+// Helper to create a client for the stub server
+export function createStubClient(overrides: Partial<LSPClientOptions> = {}): LSPClient {
+  return new LSPClient({
+    serverCommand: process.execPath,
+    serverArgs: [STUB_SERVER],
+    rootUri: 'file:///tmp',
+    logger: silentLogger,
+    ...overrides,
+  });
+}
+
 // Map SymbolKind enum to human-readable names
 export function symbolKindName(kind: SymbolKind): string {
   const names: Record<number, string> = {
@@ -58,16 +74,7 @@ export async function safeStop(client: LSPClient): Promise<void> {
 
 // Helper to check if a command exists
 export async function commandExists(command: string): Promise<boolean> {
-  const { exec } = await import('child_process');
-  const { promisify } = await import('util');
-  const execAsync = promisify(exec);
-
-  try {
-    await execAsync(`which ${command}`);
-    return true;
-  } catch {
-    return false;
-  }
+  return findExecutable(command) !== undefined;
 }
 
 // Helper to check if a directory exists
@@ -0,0 +1,80 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { spawn, ChildProcess } from 'child_process';
+import * as os from 'os';
+import * as path from 'path';
+import { LSPClient, LSPClientOptions } from '../lsp-client';
+import { STUB_SERVER, silentLogger, safeStop } from './test-helpers';
+
+function createClient(options: Partial<LSPClientOptions>): LSPClient {
+  return new LSPClient({
+    serverCommand: process.execPath,
+    rootUri: 'file:///tmp',
+    logger: silentLogger,
+    ...options,
+  });
+}
+
+function tempPipePath(): string {
+  const name = `stub-lsp-${process.pid}-${Date.now()}`;
+  return process.platform === 'win32' ? `\\\\.\\pipe\\${name}` : path.join(os.tmpdir(), `${name}.sock`);
+}
+
+describe('Pipe, Node IPC and attach transports', () => {
+  let client: LSPClient;
+  let daemon: ChildProcess | undefined;
+
+  afterEach(async () => {
+    if (client) {
+      await safeStop(client);
+    }
+    daemon?.kill();
+    daemon = undefined;
+  });
+
+  it('should connect to a pipe the server listens on', async () => {
+    const pipePath = tempPipePath();
+    client = createClient({
+      serverArgs: [STUB_SERVER, '--listen', pipePath],
+      pipe: { path: pipePath, connectTimeout: 5000 },
+    });
+
+    const result = await client.start();
+    expect(result.capabilities.hoverProvider).toBe(true);
+  });
+
+  it('should listen on a generated pipe and let the server connect back', async () => {
+    client = createClient({
+      serverArgs: [STUB_SERVER, '--connect', '${pipe}'],
+      pipe: { mode: 'listen', connectTimeout: 5000 },
+    });
+
+    const result = await client.start();
+    expect(result.capabilities.hoverProvider).toBe(true);
+  });
+
+  it('should communicate over Node IPC', async () => {
+    client = createClient({ serverArgs: [STUB_SERVER], nodeIpc: true });
+
+    await client.start();
+    await client.openDocument('file:///tmp/a.txt', 'plaintext', 'over ipc');
+    expect(await client.getConnection()!.sendRequest('test/openDocuments')).toEqual([
+      { uri: 'file:///tmp/a.txt', text: 'over ipc' },
+    ]);
+  });
+
+  it('should attach to a running server without stopping it', async () => {
+    const pipePath = tempPipePath();
+    daemon = spawn(process.execPath, [STUB_SERVER, '--listen', pipePath], { stdio: 'ignore' });
+
+    client = createClient({ serverCommand: undefined, attach: { path: pipePath, connectTimeout: 5000 } });
+    await client.start();
+    await client.stop();
+
+    expect(daemon.exitCode).toBeNull();
+
+    // The daemon still accepts new clients
+    client = createClient({ serverCommand: undefined, attach: { path: pipePath } });
+    const result = await client.start();
+    expect(result.capabilities.hoverProvider).toBe(true);
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { SymbolKind, TypeHierarchyItem } from 'vscode-languageserver-protocol';
+import { buildTypeHierarchy, TypeHierarchyProvider } from '../type-hierarchy';
+
+function type(name: string, line: number): TypeHierarchyItem {
+  const range = { start: { line, character: 0 }, end: { line, character: name.length } };
+  return { name, kind: SymbolKind.Class, uri: 'file:///Shapes.java', range, selectionRange: range };
+}
+
+const types = {
+  Shape: type('Shape', 0),
+  Polygon: type('Polygon', 10),
+  Square: type('Square', 20),
+  Circle: type('Circle', 30),
+};
+const supertypes: Record<string, TypeHierarchyItem[]> = {
+  Shape: [],
+  Polygon: [types.Shape],
+  Square: [types.Polygon],
+  Circle: [types.Shape],
+};
+
+const provider: TypeHierarchyProvider = {
+  prepareTypeHierarchy: async () => [types.Polygon],
+  getSupertypes: async (item) => supertypes[item.name],
+  getSubtypes: async (item) => Object.values(types).filter((t) => supertypes[t.name].includes(item)),
+};
+
+describe('Type hierarchy', () => {
+  it('should build supertypes and subtypes recursively', async () => {
+    const [tree] = await buildTypeHierarchy(provider, 'file:///Shapes.java', 10, 0);
+
+    expect(tree.item.name).toBe('Polygon');
+    expect(tree.supertypes.map((n) => n.item.name)).toEqual(['Shape']);
+    expect(tree.subtypes.map((n) => n.item.name)).toEqual(['Square']);
+  });
+
+  it('should stop at the maximum depth', async () => {
+    const rootProvider = { ...provider, prepareTypeHierarchy: async () => [types.Shape] };
+    const [tree] = await buildTypeHierarchy(rootProvider, 'file:///Shapes.java', 0, 0, { maxDepth: 1 });
+
+    expect(tree.subtypes.map((n) => n.item.name)).toEqual(['Polygon', 'Circle']);
+    expect(tree.subtypes[0].children).toEqual([]);
+  });
+
+  it('should skip cycles', async () => {
+    const cyclic: TypeHierarchyProvider = {
+      prepareTypeHierarchy: async () => [types.Shape],
+      getSupertypes: async (item) => [item === types.Shape ? types.Polygon : types.Shape],
+      getSubtypes: async () => [],
+    };
+    const [tree] = await buildTypeHierarchy(cyclic, 'file:///Shapes.java', 0, 0);
+
+    expect(tree.supertypes).toHaveLength(1);
+    expect(tree.supertypes[0].children).toEqual([]);
+  });
+});
@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeAll, afterAll } from 'vitest';
 import * as fs from 'fs';
 import * as path from 'path';
+import { TextDocumentEdit } from 'vscode-languageserver-protocol';
 import { createTypescriptLspClient } from '../lsp-server/typescript-lsp-server';
 import { LSPClient } from '../lsp-client';
 import { silentLogger, wait, safeStop, commandExists } from './test-helpers';
@@ -78,14 +79,70 @@ console.log(greeting);
     expect(symbolNames).toContain('number');
   });
 
+  it('should provide signature help', async () => {
+    // Inside the parentheses of console.log(greeting)
+    const signatureHelp = await client.getSignatureHelp(fileUri, 3, 12);
+    expect(signatureHelp).toBeDefined();
+    expect(signatureHelp!.signatures.length).toBeGreaterThan(0);
+  });
+
+  it('should provide workspace symbols', async () => {
+    const symbols = await client.getWorkspaceSymbols('greeting');
+    expect(symbols).toBeDefined();
+    expect(symbols!.some((s) => s.name === 'greeting')).toBe(true);
+  });
+
   it('should provide definition', async () => {
     const definition = await client.getDefinition(fileUri, 2, 25);
     expect(definition).toBeDefined();
   });
 
+  it('should provide type definition', async () => {
+    const locations = await client.getTypeDefinition(fileUri, 1, 6);
+    expect(Array.isArray(locations)).toBe(true);
+  });
+
   it('should provide references', async () => {
     const references = await client.getReferences(fileUri, 1, 6, true);
     expect(references).toBeDefined();
     expect(references!.length).toBeGreaterThan(0);
   });
+
+  it('should prepare rename', async () => {
+    const result = await client.prepareRename(fileUri, 1, 6);
+    expect(result).toBeDefined();
+    expect(result).not.toBeNull();
+  });
+
+  it('should provide rename edits', async () => {
+    const edit = await client.rename(fileUri, 1, 6, 'salutation');
+    expect(edit).toBeDefined();
+
+    const edits = edit!.changes
+      ? edit!.changes[fileUri]
+      : edit!.documentChanges!.filter(TextDocumentEdit.is).find((c) => c.textDocument.uri === fileUri)?.edits;
+    expect(edits).toBeDefined();
+    expect(edits!.length).toBeGreaterThan(1);
+  });
+
+  it('should provide code actions', async () => {
+    const range = { start: { line: 2, character: 6 }, end: { line: 2, character: 12 } };
+    const actions = await client.getCodeActions(fileUri, range, { diagnostics: [] });
+    expect(actions).toBeDefined();
+    expect(Array.isArray(actions)).toBe(true);
+  });
+
+  it('should provide formatting edits', async () => {
+    const edits = await client.formatDocument(fileUri, { tabSize: 2, insertSpaces: true });
+    expect(edits).toBeDefined();
+    expect(Array.isArray(edits)).toBe(true);
+  });
+
+  it('should provide decoded semantic tokens', async () => {
+    const tokens = await client.getDecodedSemanticTokens(fileUri);
+    expect(tokens.length).toBeGreaterThan(0);
+
+    const greeting = tokens.find((t) => t.line === 1 && t.start === 6);
+    expect(greeting?.tokenType).toBe('variable');
+  });
 });
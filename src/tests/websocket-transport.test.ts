@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { WebSocketServer } from 'ws';
+import { AddressInfo } from 'net';
+import { createMessageConnection } from 'vscode-jsonrpc';
+import { LSPClient } from '../lsp-client';
+import { WebSocketMessageReader, WebSocketMessageWriter } from '../websocket-transport';
+import { silentLogger, safeStop } from './test-helpers';
+
+describe('WebSocket transport', () => {
+  let server: WebSocketServer;
+  let url: string;
+  let received: { method: string; headers?: string }[];
+  let client: LSPClient;
+
+  beforeEach(async () => {
+    received = [];
+    server = new WebSocketServer({ port: 0, host: 'localhost' });
+    await new Promise((resolve) => server.once('listening', resolve));
+    url = `ws://localhost:${(server.address() as AddressInfo).port}`;
+
+    // In-process language server that echoes test/echo requests back
+    server.on('connection', (socket, request) => {
+      const connection = createMessageConnection(
+        new WebSocketMessageReader(socket),
+        new WebSocketMessageWriter(socket)
+      );
+      connection.onRequest('initialize', () => {
+        received.push({ method: 'initialize', headers: request.headers['x-token'] as string });
+        return { capabilities: { hoverProvider: true } };
+      });
+      connection.onRequest('test/echo', (params) => params);
+      connection.onRequest('shutdown', () => {
+        received.push({ method: 'shutdown' });
+        return null;
+      });
+      connection.onNotification('exit', () => {
+        received.push({ method: 'exit' });
+        socket.close();
+      });
+      connection.listen();
+    });
+  });
+
+  afterEach(async () => {
+    if (client) {
+      await safeStop(client);
+    }
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('should initialize and exchange messages over a WebSocket', async () => {
+    client = new LSPClient({
+      rootUri: 'file:///tmp',
+      logger: silentLogger,
+      webSocket: { url, headers: { 'x-token': 'secret' } },
+    });
+
+    const result = await client.start();
+    expect(result.capabilities.hoverProvider).toBe(true);
+    expect(received).toEqual([{ method: 'initialize', headers: 'secret' }]);
+
+    const echoed = await client.getConnection()!.sendRequest('test/echo', { text: 'hello' });
+    expect(echoed).toEqual({ text: 'hello' });
+  });
+
+  it('should shut the server down on stop', async () => {
+    client = new LSPClient({ rootUri: 'file:///tmp', logger: silentLogger, webSocket: { url } });
+    await client.start();
+
+    await client.stop();
+
+    await expect.poll(() => received.map((message) => message.method))
+      .toEqual(['initialize', 'shutdown', 'exit']);
+  });
+
+  it('should reject when nothing is listening', async () => {
+    await new Promise((resolve) => server.close(resolve));
+    server = new WebSocketServer({ noServer: true });
+
+    client = new LSPClient({ rootUri: 'file:///tmp', logger: silentLogger, webSocket: { url } });
+    await expect(client.start()).rejects.toThrow(`Failed to connect to server at ${url}`);
+  });
+});
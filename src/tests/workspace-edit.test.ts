@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import {
+  applyTextEdits,
+  sortTextEditsForSequentialApplication,
+  createFileOnDisk,
+  renameFileOnDisk,
+  deleteFileOnDisk,
+} from '../workspace-edit';
+
+function edit(startLine: number, startChar: number, endLine: number, endChar: number, newText: string) {
+  return {
+    range: {
+      start: { line: startLine, character: startChar },
+      end: { line: endLine, character: endChar },
+    },
+    newText,
+  };
+}
+
+describe('applyTextEdits', () => {
+  it('should apply edits against the original positions', () => {
+    const text = 'const a = 1;\nconsole.log(a);\n';
+    const result = applyTextEdits(text, [
+      edit(0, 6, 0, 7, 'value'),
+      edit(1, 12, 1, 13, 'value'),
+    ]);
+    expect(result).toBe('const value = 1;\nconsole.log(value);\n');
+  });
+
+  it('should keep the order of insertions at the same position', () => {
+    const result = applyTextEdits('ab', [edit(0, 1, 0, 1, 'x'), edit(0, 1, 0, 1, 'y')]);
+    expect(result).toBe('axyb');
+  });
+
+  it('should clamp positions past the end of a CRLF line', () => {
+    const result = applyTextEdits('one\r\ntwo', [edit(0, 10, 0, 10, '!')]);
+    expect(result).toBe('one!\r\ntwo');
+  });
+
+  it('should reject overlapping edits', () => {
+    expect(() => applyTextEdits('abcdef', [edit(0, 0, 0, 3, 'x'), edit(0, 2, 0, 4, 'y')]))
+      .toThrow('Overlapping text edits');
+  });
+});
+
+describe('sortTextEditsForSequentialApplication', () => {
+  it('should put later edits first and keep same-position insertions in order when applied one by one', () => {
+    const edits = [edit(0, 1, 0, 1, 'x'), edit(1, 0, 1, 3, 'TWO'), edit(0, 1, 0, 1, 'y')];
+    const sorted = sortTextEditsForSequentialApplication(edits);
+
+    expect(sorted.map((e) => e.newText)).toEqual(['TWO', 'y', 'x']);
+    const text = sorted.reduce((current, e) => applyTextEdits(current, [e]), 'ab\ntwo');
+    expect(text).toBe(applyTextEdits('ab\ntwo', edits));
+  });
+});
+
+describe('resource operations', () => {
+  let dir: string;
+  const uriFor = (name: string) => pathToFileURL(path.join(dir, name)).toString();
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'workspace-edit-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should create a file and refuse to overwrite it', () => {
+    createFileOnDisk(uriFor('nested/new.txt'));
+    expect(fs.existsSync(path.join(dir, 'nested/new.txt'))).toBe(true);
+
+    expect(() => createFileOnDisk(uriFor('nested/new.txt'))).toThrow('File already exists');
+    createFileOnDisk(uriFor('nested/new.txt'), { ignoreIfExists: true });
+  });
+
+  it('should rename a file unless the target exists', () => {
+    fs.writeFileSync(path.join(dir, 'a.txt'), 'a');
+    fs.writeFileSync(path.join(dir, 'b.txt'), 'b');
+
+    expect(renameFileOnDisk(uriFor('a.txt'), uriFor('b.txt'), { ignoreIfExists: true })).toBe(false);
+    expect(renameFileOnDisk(uriFor('a.txt'), uriFor('c.txt'))).toBe(true);
+    expect(fs.readFileSync(path.join(dir, 'c.txt'), 'utf-8')).toBe('a');
+  });
+
+  it('should delete a file', () => {
+    fs.writeFileSync(path.join(dir, 'a.txt'), 'a');
+    deleteFileOnDisk(uriFor('a.txt'));
+    expect(fs.existsSync(path.join(dir, 'a.txt'))).toBe(false);
+
+    expect(() => deleteFileOnDisk(uriFor('a.txt'))).toThrow('File not found');
+    deleteFileOnDisk(uriFor('a.txt'), { ignoreIfNotExists: true });
+  });
+
+  it('should delete an empty directory without the recursive option', () => {
+    fs.mkdirSync(path.join(dir, 'empty'));
+    deleteFileOnDisk(uriFor('empty'));
+    expect(fs.existsSync(path.join(dir, 'empty'))).toBe(false);
+
+    fs.mkdirSync(path.join(dir, 'full'));
+    fs.writeFileSync(path.join(dir, 'full', 'a.txt'), 'a');
+    expect(() => deleteFileOnDisk(uriFor('full'))).toThrow();
+    deleteFileOnDisk(uriFor('full'), { recursive: true });
+    expect(fs.existsSync(path.join(dir, 'full'))).toBe(false);
+  });
+});
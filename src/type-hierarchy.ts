@@ -0,0 +1,84 @@
+import { TypeHierarchyItem } from 'vscode-languageserver-protocol';
+import { LSPClient } from './lsp-client';
+
+/** The subset of LSPClient used to walk the type hierarchy */
+export type TypeHierarchyProvider = Pick<
+  LSPClient,
+  'prepareTypeHierarchy' | 'getSupertypes' | 'getSubtypes'
+>;
+
+export interface TypeHierarchyOptions {
+  /** Maximum number of inheritance levels to follow in each direction (default: 5) */
+  maxDepth?: number;
+}
+
+export interface TypeHierarchyNode {
+  item: TypeHierarchyItem;
+  /** Supertypes or subtypes of this node, depending on the branch it belongs to */
+  children: TypeHierarchyNode[];
+}
+
+export interface TypeHierarchyTree {
+  item: TypeHierarchyItem;
+  /** Types this type extends or implements, recursively */
+  supertypes: TypeHierarchyNode[];
+  /** Types extending or implementing this type, recursively */
+  subtypes: TypeHierarchyNode[];
+}
+
+const DEFAULT_MAX_DEPTH = 5;
+
+function itemKey(item: TypeHierarchyItem): string {
+  const { line, character } = item.selectionRange.start;
+  return `${item.uri}#${line}:${character}:${item.name}`;
+}
+
+async function expand(
+  item: TypeHierarchyItem,
+  next: (item: TypeHierarchyItem) => Promise<TypeHierarchyItem[] | null>,
+  depth: number,
+  ancestors: Set<string>
+): Promise<TypeHierarchyNode[]> {
+  if (depth <= 0) {
+    return [];
+  }
+
+  const nodes: TypeHierarchyNode[] = [];
+  for (const child of (await next(item)) ?? []) {
+    const key = itemKey(child);
+    // Guard against cycles reported by servers for malformed code
+    if (ancestors.has(key)) {
+      continue;
+    }
+    ancestors.add(key);
+    nodes.push({ item: child, children: await expand(child, next, depth - 1, ancestors) });
+    ancestors.delete(key);
+  }
+  return nodes;
+}
+
+/**
+ * Build the inheritance tree of the type at a position: its supertypes and
+ * subtypes, each followed recursively up to maxDepth levels.
+ */
+export async function buildTypeHierarchy(
+  client: TypeHierarchyProvider,
+  uri: string,
+  line: number,
+  character: number,
+  options: TypeHierarchyOptions = {}
+): Promise<TypeHierarchyTree[]> {
+  const { maxDepth = DEFAULT_MAX_DEPTH } = options;
+  const items = (await client.prepareTypeHierarchy(uri, line, character)) ?? [];
+
+  const trees: TypeHierarchyTree[] = [];
+  for (const item of items) {
+    const ancestors = new Set([itemKey(item)]);
+    trees.push({
+      item,
+      supertypes: await expand(item, (i) => client.getSupertypes(i), maxDepth, ancestors),
+      subtypes: await expand(item, (i) => client.getSubtypes(i), maxDepth, ancestors),
+    });
+  }
+  return trees;
+}
@@ -0,0 +1,115 @@
+import WebSocket from 'ws';
+import {
+  AbstractMessageReader,
+  AbstractMessageWriter,
+  DataCallback,
+  Disposable,
+  Message,
+  MessageReader,
+  MessageWriter,
+} from 'vscode-jsonrpc';
+
+const DEFAULT_WEBSOCKET_CONNECT_TIMEOUT_MS = 10000;
+
+export interface WebSocketOptions {
+  /** ws:// or wss:// URL of the language server or its WebSocket proxy */
+  url: string;
+  /** Extra headers for the opening handshake, e.g. for authentication */
+  headers?: Record<string, string>;
+  /** Time to wait for the handshake in milliseconds (default: 10000) */
+  connectTimeout?: number;
+}
+
+/**
+ * Reads JSON-RPC messages from a WebSocket, one message per WebSocket frame.
+ */
+export class WebSocketMessageReader extends AbstractMessageReader implements MessageReader {
+  private callback: DataCallback | null = null;
+  // Messages received before listen() was called
+  private pending: Message[] = [];
+
+  constructor(private socket: WebSocket) {
+    super();
+    socket.on('message', (data) => this.handleData(data));
+    socket.on('error', (error) => this.fireError(error));
+    socket.on('close', () => this.fireClose());
+  }
+
+  listen(callback: DataCallback): Disposable {
+    this.callback = callback;
+    for (const message of this.pending.splice(0)) {
+      callback(message);
+    }
+    return Disposable.create(() => {
+      this.callback = null;
+    });
+  }
+
+  private handleData(data: WebSocket.RawData): void {
+    let message: Message;
+    try {
+      message = JSON.parse(data.toString());
+    } catch (error) {
+      this.fireError(error);
+      return;
+    }
+
+    if (this.callback) {
+      this.callback(message);
+    } else {
+      this.pending.push(message);
+    }
+  }
+}
+
+/**
+ * Writes JSON-RPC messages to a WebSocket, one message per WebSocket frame.
+ */
+export class WebSocketMessageWriter extends AbstractMessageWriter implements MessageWriter {
+  private errorCount = 0;
+
+  constructor(private socket: WebSocket) {
+    super();
+    socket.on('close', () => this.fireClose());
+  }
+
+  write(message: Message): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.socket.send(JSON.stringify(message), (error) => {
+        if (error) {
+          this.errorCount++;
+          this.fireError(error, message, this.errorCount);
+          reject(error);
+        } else {
+          this.errorCount = 0;
+          resolve();
+        }
+      });
+    });
+  }
+
+  end(): void {
+    this.socket.close();
+  }
+}
+
+/**
+ * Open a WebSocket connection, rejecting if the handshake fails or times out.
+ */
+export function connectWebSocket(options: WebSocketOptions): Promise<WebSocket> {
+  const { url, headers, connectTimeout = DEFAULT_WEBSOCKET_CONNECT_TIMEOUT_MS } = options;
+
+  return new Promise((resolve, reject) => {
+    const socket = new WebSocket(url, { headers, handshakeTimeout: connectTimeout });
+
+    const onError = (error: Error): void => {
+      reject(new Error(`Failed to connect to server at ${url}: ${error.message}`));
+    };
+    socket.once('error', onError);
+    socket.once('open', () => {
+      // The message reader handles errors from here on
+      socket.off('error', onError);
+      resolve(socket);
+    });
+  });
+}
@@ -0,0 +1,175 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import {
+  TextEdit,
+  Position,
+  CreateFileOptions,
+  RenameFileOptions,
+  DeleteFileOptions,
+  OptionalVersionedTextDocumentIdentifier,
+} from 'vscode-languageserver-protocol';
+
+/**
+ * Convert a file:// URI into a filesystem path.
+ */
+export function uriToPath(uri: string): string {
+  return fileURLToPath(uri);
+}
+
+/**
+ * Convert an LSP position (zero-based line, UTF-16 character) into an offset in the text.
+ * Positions past the end of a line or the end of the text are clamped.
+ */
+function positionToOffset(text: string, lineStarts: number[], position: Position): number {
+  if (position.line >= lineStarts.length) {
+    return text.length;
+  }
+
+  const lineStart = lineStarts[position.line];
+  const nextLineStart = position.line + 1 < lineStarts.length
+    ? lineStarts[position.line + 1]
+    : text.length;
+
+  let lineEnd = nextLineStart;
+  if (lineEnd > lineStart && text[lineEnd - 1] === '\n') lineEnd--;
+  if (lineEnd > lineStart && text[lineEnd - 1] === '\r') lineEnd--;
+
+  return Math.min(lineStart + position.character, lineEnd);
+}
+
+function computeLineStarts(text: string): number[] {
+  const lineStarts = [0];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\n') {
+      lineStarts.push(i + 1);
+    }
+  }
+  return lineStarts;
+}
+
+/**
+ * Apply a set of non-overlapping text edits to a string and return the result.
+ *
+ * Edits are applied from the end of the document towards the start, so the ranges
+ * of every edit refer to the original text as required by the protocol.
+ */
+export function applyTextEdits(text: string, edits: TextEdit[]): string {
+  const lineStarts = computeLineStarts(text);
+
+  const resolved = edits
+    .map((edit, index) => ({
+      start: positionToOffset(text, lineStarts, edit.range.start),
+      end: positionToOffset(text, lineStarts, edit.range.end),
+      newText: edit.newText,
+      index,
+    }))
+    // Later edits first; edits inserted at the same offset keep their original order
+    .sort((a, b) => b.start - a.start || b.end - a.end || b.index - a.index);
+
+  let result = text;
+  let lastStart = Number.POSITIVE_INFINITY;
+  for (const edit of resolved) {
+    if (edit.end > lastStart) {
+      throw new Error('Overlapping text edits cannot be applied');
+    }
+    result = result.slice(0, edit.start) + edit.newText + result.slice(edit.end);
+    lastStart = edit.start;
+  }
+
+  return result;
+}
+
+function comparePositions(a: Position, b: Position): number {
+  return a.line - b.line || a.character - b.character;
+}
+
+/**
+ * Order text edits so that applying them one after another, each against the
+ * result of the previous one, gives the same text as applyTextEdits(): later
+ * edits come first, so the ranges of the remaining edits stay valid.
+ */
+export function sortTextEditsForSequentialApplication(edits: TextEdit[]): TextEdit[] {
+  return edits
+    .map((edit, index) => ({ edit, index }))
+    .sort((a, b) => comparePositions(b.edit.range.start, a.edit.range.start)
+      || comparePositions(b.edit.range.end, a.edit.range.end)
+      || b.index - a.index)
+    .map(({ edit }) => edit);
+}
+
+/**
+ * Check the version a TextDocumentEdit was computed for against the open
+ * document it edits. A null version, or a document that is not open, matches.
+ */
+export function checkDocumentVersion(textDocument: OptionalVersionedTextDocumentIdentifier, openVersion: number | undefined): void {
+  if (textDocument.version !== null && openVersion !== undefined && textDocument.version !== openVersion) {
+    throw new Error(
+      `Version mismatch for ${textDocument.uri}: edit is for version ${textDocument.version}, document is at version ${openVersion}`
+    );
+  }
+}
+
+/**
+ * Create a file on disk as described by a CreateFile resource operation.
+ * Returns false when the creation was skipped because of ignoreIfExists.
+ */
+export function createFileOnDisk(uri: string, options: CreateFileOptions = {}): boolean {
+  const filePath = uriToPath(uri);
+
+  if (fs.existsSync(filePath)) {
+    if (options.ignoreIfExists && !options.overwrite) {
+      return false;
+    }
+    if (!options.overwrite) {
+      throw new Error(`File already exists: ${filePath}`);
+    }
+  }
+
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, '');
+  return true;
+}
+
+/**
+ * Rename a file on disk as described by a RenameFile resource operation.
+ * Returns false when the rename was skipped because of ignoreIfExists.
+ */
+export function renameFileOnDisk(oldUri: string, newUri: string, options: RenameFileOptions = {}): boolean {
+  const oldPath = uriToPath(oldUri);
+  const newPath = uriToPath(newUri);
+
+  if (fs.existsSync(newPath)) {
+    if (options.ignoreIfExists && !options.overwrite) {
+      return false;
+    }
+    if (!options.overwrite) {
+      throw new Error(`File already exists: ${newPath}`);
+    }
+  }
+
+  fs.mkdirSync(path.dirname(newPath), { recursive: true });
+  fs.renameSync(oldPath, newPath);
+  return true;
+}
+
+/**
+ * Delete a file or directory on disk as described by a DeleteFile resource operation.
+ */
+export function deleteFileOnDisk(uri: string, options: DeleteFileOptions = {}): void {
+  const filePath = uriToPath(uri);
+
+  if (!fs.existsSync(filePath)) {
+    if (options.ignoreIfNotExists) {
+      return;
+    }
+    throw new Error(`File not found: ${filePath}`);
+  }
+
+  if (!options.recursive && fs.statSync(filePath).isDirectory()) {
+    // rmSync refuses directories without recursive; rmdirSync removes empty ones
+    fs.rmdirSync(filePath);
+    return;
+  }
+  fs.rmSync(filePath, { recursive: options.recursive ?? false });
+}